@@ -1,6 +1,17 @@
 // aiRecommendations.ts
 
-export type AiRecStrategy = "warrior" | "rebel" | "wizard";
+import {
+  DEFAULT_MONEY_FORMAT,
+  type MoneyFormat,
+  formatCurrency,
+} from "@/lib/debtPlan";
+
+export type AiRecStrategy =
+  | "warrior"
+  | "rebel"
+  | "wizard"
+  | "custom"
+  | "guardian";
 
 export interface AiRecommendation {
   emoji: string;
@@ -15,7 +26,9 @@ export function generateAiRecommendation(
   strategy: AiRecStrategy,
   debtsCount: number,
   monthsToPayoff?: number,
-  interestTotal?: number
+  interestTotal?: number,
+  savingsVsAvalanche?: number, // wizard plans only
+  money: MoneyFormat = DEFAULT_MONEY_FORMAT
 ): AiRecommendation {
   const monthText = monthsToPayoff
     ? `around ${monthsToPayoff} months`
@@ -23,7 +36,7 @@ export function generateAiRecommendation(
 
   const interestText =
     typeof interestTotal === "number"
-      ? `roughly $${interestTotal.toLocaleString()} in interest on this path.`
+      ? `roughly ${formatCurrency(interestTotal, money)} in interest on this path.`
       : "a chunk of interest instead of letting it quietly snowball.";
 
   const baseBullets = [
@@ -56,10 +69,15 @@ export function generateAiRecommendation(
       personaName: "The Wizard",
       headline: "Casting spells to outsmart interest like a math sorcerer.",
       summary:
-        "You’re eliminating high-APR debts first—very brainy, extremely optimized, borderline magical.",
+        "Every month we test where your extra money does the most damage—promo deadlines included—and keep the path with the lowest total interest. Very brainy, borderline magical.",
       bullets: [
-        "Every payment hits interest where it hurts (right in the APR).",
-        "This path quietly saves future-you more money than it looks like at first glance.",
+        typeof savingsVsAvalanche === "number" && savingsVsAvalanche >= 0.01
+          ? `This beats plain highest-APR-first (The Rebel) by about ${formatCurrency(
+              savingsVsAvalanche,
+              money
+            )} in interest and fees.`
+          : "Here highest-APR-first already is the cheapest path, so the Wizard follows it exactly.",
+        "If your cards or budget change, the spell gets recast from scratch.",
         ...baseBullets,
       ],
       footer:
@@ -67,6 +85,40 @@ export function generateAiRecommendation(
     };
   }
 
+  if (strategy === "custom") {
+    return {
+      emoji: "🧭",
+      personaName: "Your Order",
+      headline: "Your debts, your rules.",
+      summary:
+        "You picked the payoff order yourself—maybe there’s a card you want to close or a family loan you want off your mind first.",
+      bullets: [
+        "Extra money always goes to the top card on your list.",
+        "Reorder any time life changes; the plan follows you.",
+        ...baseBullets,
+      ],
+      footer:
+        "Peace of mind counts too. You know your situation better than any formula.",
+    };
+  }
+
+  if (strategy === "guardian") {
+    return {
+      emoji: "🛡️",
+      personaName: "The Guardian",
+      headline: "Protecting your credit score while the debt comes down.",
+      summary:
+        "We work the most maxed-out card under 30% of its limit first, then the next, then each one under 10%—the lines credit scores watch—before going after the highest APRs.",
+      bullets: [
+        "Utilization is a big slice of your score, and it bounces back as soon as balances drop.",
+        "Once every card is under 10%, the rest of the plan saves interest like The Rebel.",
+        ...baseBullets,
+      ],
+      footer:
+        "Guarding your score today keeps better rates within reach tomorrow. Nicely played.",
+    };
+  }
+
   // rebel
   return {
     emoji: "🌀",
@@ -11,8 +11,14 @@ import {
   ResponsiveContainer,
 } from "recharts";
 
-import { useDebtStore } from "@/lib/debtStore";
-import { type Strategy, getStrategyLabel, formatCurrency } from "@/lib/debtPlan";
+import { useDebtStore, useMoneyFormat } from "@/lib/debtStore";
+import {
+  type Strategy,
+  getStrategyLabel,
+  formatCurrency,
+  formatPlanDate,
+  type MoneyFormat,
+} from "@/lib/debtPlan";
 
 // ----------------------------------------------------
 // Types & Defaults
@@ -28,6 +34,14 @@ type StoredSummary = {
   projectedMonths: number;
   monthlyPayment: number;
   interestSaved: number;
+  firstMonthInterest?: number;
+  firstMonthPrincipal?: number;
+  payoffDate?: string; // ISO date; older summaries only have the month count
+  emergencyFund?: {
+    target: number;
+    balanceAfterMonthOne: number;
+    filledDate?: string;
+  };
   chartData?: { monthLabel?: string; balance: number }[];
 };
 
@@ -51,22 +65,30 @@ const DEFAULT_BALANCE_DATA: BalancePoint[] = [
   { month: "Month 10", balance: 3800 },
 ];
 
-const currency0Formatter = new Intl.NumberFormat("en-US", {
-  style: "currency",
-  currency: "USD",
-  maximumFractionDigits: 0,
-});
+// whole units for the headline tiles and chart tooltip
+function formatCurrency0(n: number, money: MoneyFormat): string {
+  return n.toLocaleString(money.locale, {
+    style: "currency",
+    currency: money.currency,
+    maximumFractionDigits: 0,
+  });
+}
 
 const STRATEGY_ICON: Record<Strategy, string> = {
   warrior: "⚔️",
   rebel: "🔥",
   wizard: "🪄",
+  custom: "🧭",
+  guardian: "🛡️",
 };
 
 const STRATEGY_TAGLINE: Record<Strategy, string> = {
   warrior: "You’re attacking the smallest balances first for quick wins.",
   rebel: "You’re attacking the highest-interest cards to save as much as possible.",
-  wizard: "You’re using a smart blend of motivation and interest savings.",
+  wizard: "You’re following the order that costs the least total interest.",
+  custom: "You’re paying cards off in the order you chose.",
+  guardian:
+    "You’re getting every card under 30% (then 10%) of its limit first to protect your score.",
 };
 
 // ----------------------------------------------------
@@ -75,6 +97,7 @@ const STRATEGY_TAGLINE: Record<Strategy, string> = {
 
 const DashboardPage: React.FC = () => {
   const { state } = useDebtStore(); // current strategy from global store
+  const money = useMoneyFormat();
 
   const [summary, setSummary] = useState<StoredSummary>(DEFAULT_SUMMARY);
   const [chartData, setChartData] =
@@ -114,7 +137,7 @@ const DashboardPage: React.FC = () => {
   const monthsLeft = summary.projectedMonths ?? 0;
   const monthlyPayment = summary.monthlyPayment ?? 0;
 
-  // Approximate Month 1 principal vs interest using starting vs first-chart point
+  // Month 1 principal vs interest (from the plan, or approximated for old data)
   const {
     requiredPayment,
     interestThisMonth,
@@ -127,10 +150,18 @@ const DashboardPage: React.FC = () => {
     let interest = 0;
 
     if (
+      summary.firstMonthInterest != null &&
+      summary.firstMonthPrincipal != null
+    ) {
+      // exact split from the plan engine's month 1 row
+      interest = summary.firstMonthInterest;
+      principal = summary.firstMonthPrincipal;
+    } else if (
       chartData.length > 0 &&
       summary.totalDebt > 0 &&
       payment > 0
     ) {
+      // older saved summaries: approximate from the first chart point
       const firstEndBalance = chartData[0].balance;
       const rawPrincipal = summary.totalDebt - firstEndBalance;
 
@@ -139,8 +170,9 @@ const DashboardPage: React.FC = () => {
       interest = rawInterest > 0 ? rawInterest : 0;
     }
 
-    const payoff =
-      summary.projectedMonths && summary.projectedMonths > 0
+    const payoff = summary.payoffDate
+      ? formatPlanDate(summary.payoffDate, false, money.locale)
+      : summary.projectedMonths && summary.projectedMonths > 0
         ? `Month ${summary.projectedMonths}`
         : "—";
 
@@ -150,13 +182,28 @@ const DashboardPage: React.FC = () => {
       principalThisMonth: principal,
       payoffLabel: payoff,
     };
-  }, [chartData, summary.totalDebt, summary.projectedMonths, monthlyPayment]);
+  }, [
+    chartData,
+    summary.totalDebt,
+    summary.projectedMonths,
+    summary.payoffDate,
+    summary.firstMonthInterest,
+    summary.firstMonthPrincipal,
+    monthlyPayment,
+    money.locale,
+  ]);
 
   const progressAfterMonthOne = useMemo(() => {
     if (!monthsLeft || monthsLeft <= 0) return 0;
     return (1 / monthsLeft) * 100;
   }, [monthsLeft]);
 
+  const fundProgressAfterMonthOne = useMemo(() => {
+    const fund = summary.emergencyFund;
+    if (!fund || fund.target <= 0) return 0;
+    return Math.min(100, (fund.balanceAfterMonthOne / fund.target) * 100);
+  }, [summary.emergencyFund]);
+
   // NEW: “plan savings strength” percentage based on interestSaved vs totalDebt
   const savingsPercent = useMemo(() => {
     if (!summary.totalDebt || summary.totalDebt <= 0) return 0;
@@ -168,21 +215,24 @@ const DashboardPage: React.FC = () => {
     // 75%+ tier
     if (savingsPercent >= 75) {
       return `You’re crushing it — this plan is projected to avoid about ${formatCurrency(
-        summary.interestSaved
+        summary.interestSaved,
+        money
       )} in interest. 🔥`;
     }
 
     // 50–75%
     if (savingsPercent >= 50) {
       return `Strong plan — you’re on track to avoid around ${formatCurrency(
-        summary.interestSaved
+        summary.interestSaved,
+        money
       )} in interest. Keep pushing. 💪`;
     }
 
     // 25–50%
     if (savingsPercent >= 25) {
       return `Solid plan — you’re already lined up to save ${formatCurrency(
-        summary.interestSaved
+        summary.interestSaved,
+        money
       )} in interest over the life of this payoff. ⚡️`;
     }
 
@@ -193,7 +243,7 @@ const DashboardPage: React.FC = () => {
 
     // Default “just starting” message
     return "You just started — keep going, the plan is in motion. 🚀";
-  }, [savingsPercent, summary.interestSaved, monthsLeft]);
+  }, [savingsPercent, summary.interestSaved, monthsLeft, money]);
 
   const currentStrategy = state.strategy;
   const strategyLabel = getStrategyLabel(currentStrategy);
@@ -237,7 +287,7 @@ const DashboardPage: React.FC = () => {
               Total Debt
             </p>
             <p className="mt-1 text-lg font-semibold text-slate-100">
-              {currency0Formatter.format(summary.totalDebt)}
+              {formatCurrency0(summary.totalDebt, money)}
             </p>
           </div>
 
@@ -246,7 +296,7 @@ const DashboardPage: React.FC = () => {
               Interest Saved
             </p>
             <p className="mt-1 text-lg font-semibold text-emerald-400">
-              {currency0Formatter.format(summary.interestSaved)}
+              {formatCurrency0(summary.interestSaved, money)}
             </p>
           </div>
 
@@ -284,6 +334,42 @@ const DashboardPage: React.FC = () => {
             />
           </div>
 
+          {/* Emergency fund progress */}
+          {summary.emergencyFund && (
+            <>
+              <div>
+                <p className="text-[11px] font-semibold uppercase tracking-[0.18em] text-slate-300">
+                  Emergency Fund
+                </p>
+                <p className="mt-1 text-xs text-slate-400">
+                  After Month 1 your fund holds{" "}
+                  <span className="font-semibold text-sky-300">
+                    {formatCurrency0(
+                      summary.emergencyFund.balanceAfterMonthOne,
+                      money
+                    )}
+                  </span>{" "}
+                  of your{" "}
+                  {formatCurrency0(summary.emergencyFund.target, money)} target
+                  {summary.emergencyFund.filledDate
+                    ? ` and is full by ${formatPlanDate(
+                      summary.emergencyFund.filledDate,
+                      false,
+                      money.locale
+                    )}.`
+                    : "."}
+                </p>
+              </div>
+
+              <div className="mt-1 h-2 w-full rounded-full bg-slate-900 border border-slate-800/90 overflow-hidden">
+                <div
+                  className="h-full rounded-full bg-gradient-to-r from-sky-400 to-indigo-400 transition-all"
+                  style={{ width: `${fundProgressAfterMonthOne}%` }}
+                />
+              </div>
+            </>
+          )}
+
           {/* Strategy badge */}
           <div className="mt-2 flex items-center gap-3 rounded-xl bg-slate-950/70 px-3 py-2 border border-slate-800/80">
             <div className="flex h-9 w-9 items-center justify-center rounded-full bg-emerald-500/10 border border-emerald-400/60 text-lg">
@@ -295,6 +381,11 @@ const DashboardPage: React.FC = () => {
                 <span className="text-emerald-300">{strategyLabel}</span>
               </p>
               <p className="text-slate-400 mt-0.5">{strategyTagline}</p>
+              {state.comparisonWinner === currentStrategy && (
+                <p className="text-emerald-300/80 mt-0.5">
+                  🏆 Your pick after comparing every strategy side by side.
+                </p>
+              )}
             </div>
           </div>
         </section>
@@ -328,7 +419,7 @@ const DashboardPage: React.FC = () => {
                   }}
                   labelStyle={{ color: "#e2e8f0" }}
                   formatter={(value: any) =>
-                    currency0Formatter.format(Number(value))
+                    formatCurrency0(Number(value), money)
                   }
                 />
                 <Line
@@ -357,7 +448,7 @@ const DashboardPage: React.FC = () => {
                 Required Payment
               </p>
               <p className="text-base font-semibold text-slate-100">
-                {formatCurrency(requiredPayment)}
+                {formatCurrency(requiredPayment, money)}
               </p>
             </div>
 
@@ -367,7 +458,7 @@ const DashboardPage: React.FC = () => {
                 Goes to Interest this Month
               </p>
               <p className="text-base font-semibold text-rose-300">
-                {formatCurrency(interestThisMonth)}
+                {formatCurrency(interestThisMonth, money)}
               </p>
             </div>
 
@@ -377,7 +468,7 @@ const DashboardPage: React.FC = () => {
                 Knocks Down Your Principal
               </p>
               <p className="text-base font-semibold text-emerald-300">
-                {formatCurrency(principalThisMonth)}
+                {formatCurrency(principalThisMonth, money)}
               </p>
             </div>
 
@@ -13,41 +13,16 @@ import {
   Legend,
 } from "recharts";
 
-import { useDebtStore, Strategy, EditableDebt } from "@/lib/debtStore";
-
-// ----------------------------------------------------
-// Types (local)
-// ----------------------------------------------------
-
-type Debt = {
-  id: number;
-  name: string;
-  balance: number;
-  apr: number;
-  minPayment: number;
-};
-
-type MonthlyDebtPayment = {
-  debtId: number;
-  name: string;
-  balanceStart: number;
-  interestCharged: number;
-  minPayment: number;
-  extraPayment: number;
-  totalPayment: number;
-  principalPaid: number;
-  balanceEnd: number;
-};
-
-type ScheduleMonth = {
-  monthIndex: number;
-  totalPayment: number;
-  totalInterest: number;
-  totalPrincipal: number;
-  totalBalanceStart: number;
-  totalBalanceEnd: number;
-  payments: MonthlyDebtPayment[];
-};
+import { useDebtStore, useMoneyFormat, Strategy } from "@/lib/debtStore";
+import {
+  calculatePlan,
+  formatCurrency,
+  formatDueDate,
+  formatPlanDate,
+  getStartingMinimum,
+  parsePlanDate,
+  type ScheduleRow,
+} from "@/lib/debtPlan";
 
 // ----------------------------------------------------
 // Helpers
@@ -57,6 +32,8 @@ const STRATEGY_ICONS: Record<Strategy, string> = {
   warrior: "⚔️",
   rebel: "🔥",
   wizard: "🪄",
+  custom: "🧭",
+  guardian: "🛡️",
 };
 
 function parseNumber(value: string): number {
@@ -64,188 +41,6 @@ function parseNumber(value: string): number {
   return Number.isFinite(n) ? n : 0;
 }
 
-function cloneDebts(editableDebts: EditableDebt[]): Debt[] {
-  return editableDebts
-    .map((d) => ({
-      id: d.id,
-      name: d.name || `Card ${d.id}`,
-      balance: Math.max(0, parseNumber(d.balance)),
-      apr: Math.max(0, parseNumber(d.apr)),
-      minPayment: Math.max(0, parseNumber(d.minPayment)),
-    }))
-    .filter((d) => d.balance > 0 && d.minPayment > 0);
-}
-
-// Core payoff schedule (same logic as lib/debtPlan)
-function buildSchedule(
-  inputDebts: EditableDebt[],
-  strategy: Strategy,
-  monthlyBudgetRaw: string
-): ScheduleMonth[] {
-  const monthlyBudget = Math.max(0, parseNumber(monthlyBudgetRaw));
-  const debts = cloneDebts(inputDebts);
-  if (debts.length === 0 || monthlyBudget <= 0) return [];
-
-  const baseMinSum = debts.reduce((sum, d) => sum + d.minPayment, 0);
-  if (baseMinSum > monthlyBudget + 1e-6) return [];
-
-  const workingDebts: Debt[] = debts.map((d) => ({ ...d }));
-  const schedule: ScheduleMonth[] = [];
-  const maxMonths = 600;
-
-  for (let month = 1; month <= maxMonths; month++) {
-    const activeDebts = workingDebts.filter((d) => d.balance > 0.01);
-    if (activeDebts.length === 0) break;
-
-    const interestById = new Map<number, number>();
-    const minDueById = new Map<number, number>();
-
-    let sumMinDue = 0;
-    let totalBalanceStart = 0;
-
-    for (const d of workingDebts) {
-      if (d.balance <= 0.01) {
-        interestById.set(d.id, 0);
-        minDueById.set(d.id, 0);
-        continue;
-      }
-
-      const monthlyRate = d.apr / 100 / 12;
-      const interest = d.balance * monthlyRate;
-      const minDue = Math.min(d.minPayment, d.balance + interest);
-
-      interestById.set(d.id, interest);
-      minDueById.set(d.id, minDue);
-
-      sumMinDue += minDue;
-      totalBalanceStart += d.balance;
-    }
-
-    if (sumMinDue > monthlyBudget + 1e-6) break;
-
-    let leftover = Math.max(0, monthlyBudget - sumMinDue);
-
-    const extraById = new Map<number, number>();
-    const totalPaymentById = new Map<number, number>();
-
-    for (const d of workingDebts) {
-      const minDue = minDueById.get(d.id) ?? 0;
-      extraById.set(d.id, 0);
-      totalPaymentById.set(d.id, minDue);
-    }
-
-    type PriorityItem = {
-      id: number;
-      balance: number;
-      apr: number;
-      interest: number;
-    };
-
-    const priorityList: PriorityItem[] = workingDebts
-      .filter((d) => d.balance > 0.01)
-      .map((d) => ({
-        id: d.id,
-        balance: d.balance,
-        apr: d.apr,
-        interest: (d.apr / 100 / 12) * d.balance || 0,
-      }));
-
-    priorityList.sort((a, b) => {
-      switch (strategy) {
-        case "warrior":
-          if (a.balance !== b.balance) return a.balance - b.balance;
-          return b.apr - a.apr;
-        case "rebel":
-          if (b.apr !== a.apr) return b.apr - a.apr;
-          return b.balance - a.balance;
-        case "wizard":
-          if (b.interest !== a.interest) return b.interest - a.interest;
-          return b.apr - a.apr;
-        default:
-          return 0;
-      }
-    });
-
-    while (leftover > 0.01) {
-      let allocatedThisPass = 0;
-
-      for (const p of priorityList) {
-        if (leftover <= 0.01) break;
-
-        const d = workingDebts.find((wd) => wd.id === p.id);
-        if (!d || d.balance <= 0.01) continue;
-
-        const interest = interestById.get(d.id) ?? 0;
-        const alreadyPaying = totalPaymentById.get(d.id) ?? 0;
-        const maxNeeded = d.balance + interest - alreadyPaying;
-        if (maxNeeded <= 0.01) continue;
-
-        const extraForThisDebt = Math.min(maxNeeded, leftover);
-        if (extraForThisDebt <= 0.001) continue;
-
-        extraById.set(d.id, (extraById.get(d.id) ?? 0) + extraForThisDebt);
-        totalPaymentById.set(d.id, alreadyPaying + extraForThisDebt);
-
-        leftover -= extraForThisDebt;
-        allocatedThisPass += extraForThisDebt;
-      }
-
-      if (allocatedThisPass <= 0.001) break;
-    }
-
-    let totalPayment = 0;
-    let totalInterest = 0;
-    let totalPrincipal = 0;
-    let totalBalanceEnd = 0;
-    const payments: MonthlyDebtPayment[] = [];
-
-    for (const d of workingDebts) {
-      const startBal = d.balance;
-      const interest = interestById.get(d.id) ?? 0;
-      const minPayment = minDueById.get(d.id) ?? 0;
-      const extraPayment = extraById.get(d.id) ?? 0;
-      const totalPay = totalPaymentById.get(d.id) ?? 0;
-
-      const principalPaid = Math.max(0, totalPay - interest);
-      let newBalance = startBal + interest - totalPay;
-      if (newBalance < 0) newBalance = 0;
-
-      d.balance = newBalance;
-
-      totalPayment += totalPay;
-      totalInterest += interest;
-      totalPrincipal += principalPaid;
-      totalBalanceEnd += newBalance;
-
-      payments.push({
-        debtId: d.id,
-        name: d.name,
-        balanceStart: startBal,
-        interestCharged: interest,
-        minPayment,
-        extraPayment,
-        totalPayment: totalPay,
-        principalPaid,
-        balanceEnd: newBalance,
-      });
-    }
-
-    schedule.push({
-      monthIndex: month,
-      totalPayment,
-      totalInterest,
-      totalPrincipal,
-      totalBalanceStart,
-      totalBalanceEnd,
-      payments,
-    });
-
-    if (totalBalanceEnd <= 0.01) break;
-  }
-
-  return schedule;
-}
-
 function getStrategyLabel(strategy: Strategy): string {
   switch (strategy) {
     case "warrior":
@@ -254,6 +49,10 @@ function getStrategyLabel(strategy: Strategy): string {
       return "Rebel (Highest APR First)";
     case "wizard":
       return "Wizard (Interest-Optimized)";
+    case "custom":
+      return "Your Order (Custom)";
+    case "guardian":
+      return "Guardian (Utilization First)";
     default:
       return strategy;
   }
@@ -276,8 +75,20 @@ function getStrategyShortInstructions(strategy: Strategy): string[] {
     case "wizard":
       return [
         "Always pay at least the minimum on every card.",
-        "Your extra money is directed to the cards costing you the most interest right now.",
-        "This keeps your total interest paid as low as possible over time.",
+        "Each month your extra money goes wherever the optimizer found it saves the most total interest.",
+        "That can mean jumping on a promo balance before its rate resets, not just the highest APR.",
+      ];
+    case "custom":
+      return [
+        "Always pay at least the minimum on every card.",
+        "Use all extra money on the card at the top of your own payoff order.",
+        "When that card is gone, its old minimum rolls into the next card on your list.",
+      ];
+    case "guardian":
+      return [
+        "Always pay at least the minimum on every card.",
+        "Use extra money to get the card using the most of its limit under 30%, then the next one, then each under 10%.",
+        "Once every card is under 10%, extra money goes to the highest APR.",
       ];
     default:
       return [];
@@ -290,6 +101,7 @@ function getStrategyShortInstructions(strategy: Strategy): string[] {
 
 export default function DebtPayoffPlannerDemoPage() {
   const { state } = useDebtStore();
+  const money = useMoneyFormat();
   const debts = state.debts;
   const strategy = state.strategy;
   const monthlyBudgetRaw =
@@ -297,17 +109,45 @@ export default function DebtPayoffPlannerDemoPage() {
       ? state.extraBudget.toString()
       : "0";
 
-  const schedule = useMemo(
-    () => buildSchedule(debts, strategy, monthlyBudgetRaw),
-    [debts, strategy, monthlyBudgetRaw]
-  );
+  // same engine as Home, so the numbers here always match the plan there
+  const schedule: ScheduleRow[] = useMemo(() => {
+    const plan = calculatePlan(debts, monthlyBudgetRaw, strategy, {
+      interestAccrual: state.interestAccrual,
+      interestRounding: state.interestRounding,
+      paymentDay: state.paymentDay ?? undefined,
+      startDate: parsePlanDate(state.planStartDate ?? "") ?? new Date(),
+      lumpSums: state.lumpSums,
+      customOrder: state.customOrder,
+      // rows the editor has just added still have no amount; Home skips
+      // them the same way
+      budgetTimeline: state.budgetTimeline.filter((c) => c.amount > 0),
+      emergencyFund: state.emergencyFund ?? undefined,
+      marginalTaxRate: state.marginalTaxRate ?? undefined,
+    });
+    return "error" in plan ? [] : plan.schedule;
+  }, [
+    debts,
+    strategy,
+    monthlyBudgetRaw,
+    state.interestAccrual,
+    state.interestRounding,
+    state.paymentDay,
+    state.planStartDate,
+    state.lumpSums,
+    state.customOrder,
+    state.budgetTimeline,
+    state.emergencyFund,
+    state.marginalTaxRate,
+  ]);
 
   const nextMonth = schedule[0] ?? null;
   const payoffMonths =
-    schedule.length > 0 ? schedule[schedule.length - 1].monthIndex : null;
+    schedule.length > 0 ? schedule[schedule.length - 1].month : null;
+  const payoffDate =
+    schedule.length > 0 ? schedule[schedule.length - 1].date : null;
 
   const totalInterestPaid = schedule.reduce(
-    (sum, m) => sum + m.totalInterest,
+    (sum, m) => sum + m.interestPaid,
     0
   );
 
@@ -315,7 +155,7 @@ export default function DebtPayoffPlannerDemoPage() {
     schedule.length > 0 ? schedule[0].totalBalanceStart : 0;
 
   const chartData = schedule.map((m) => ({
-    monthLabel: `Month ${m.monthIndex}`,
+    monthLabel: formatPlanDate(m.date, true, money.locale),
     totalBalance: Number(m.totalBalanceEnd.toFixed(2)),
   }));
 
@@ -387,13 +227,54 @@ export default function DebtPayoffPlannerDemoPage() {
                           {d.name || `Card ${d.id}`}
                         </td>
                         <td className="py-2 pr-3 text-slate-100">
-                          ${parseNumber(d.balance).toFixed(2)}
+                          {formatCurrency(parseNumber(d.balance), money)}
                         </td>
                         <td className="py-2 pr-3 text-slate-100">
                           {parseNumber(d.apr).toFixed(2)}%
+                          {parseNumber(d.promoEndMonth ?? "") > 0 && (
+                            <span className="block text-[10px] text-slate-400">
+                              {parseNumber(d.promoApr ?? "").toFixed(2)}% through
+                              month {parseNumber(d.promoEndMonth ?? "")}
+                            </span>
+                          )}
                         </td>
                         <td className="py-2 pr-3 text-slate-100">
-                          ${parseNumber(d.minPayment).toFixed(2)}
+                          {d.kind === "installment" ? (
+                            <>
+                              {formatCurrency(getStartingMinimum(d), money)}
+                              <span className="block text-[10px] text-slate-400">
+                                Installment loan
+                                {parseNumber(d.termMonths ?? "") > 0 &&
+                                  `, ${parseNumber(d.termMonths ?? "")} months left`}
+                              </span>
+                            </>
+                          ) : (
+                            <>{formatCurrency(parseNumber(d.minPayment), money)}</>
+                          )}
+                          {d.kind !== "installment" && d.minPaymentRule && d.minPaymentRule !== "fixed" && (
+                            <span className="block text-[10px] text-slate-400">
+                              {parseNumber(d.minPaymentPercent ?? "")}% of
+                              balance
+                              {d.minPaymentRule === "percentPlusInterest"
+                                ? " + interest"
+                                : ""}
+                              , floor
+                            </span>
+                          )}
+                          {parseNumber(d.monthlySpend ?? "") > 0 && (
+                            <span className="block text-[10px] text-slate-400">
+                              +
+                              {formatCurrency(
+                                parseNumber(d.monthlySpend ?? ""),
+                                money
+                              )}
+                              /mo
+                              new spend
+                              {d.spendMode === "paidInFull"
+                                ? " (paid in full)"
+                                : " (carried)"}
+                            </span>
+                          )}
                         </td>
                       </tr>
                     ))
@@ -421,7 +302,7 @@ export default function DebtPayoffPlannerDemoPage() {
                 <p className="mt-2 text-[11px] text-slate-400">
                   Total debt:{" "}
                   <span className="font-semibold text-emerald-300">
-                    ${totalDebt.toFixed(2)}
+                    {formatCurrency(totalDebt, money)}
                   </span>
                 </p>
               )}
@@ -435,7 +316,7 @@ export default function DebtPayoffPlannerDemoPage() {
                 </h2>
 
                 <div className="mt-3 flex items-center justify-center gap-6">
-                  {(["warrior", "rebel", "wizard"] as Strategy[]).map((s) => {
+                  {(["warrior", "rebel", "wizard", "custom", "guardian"] as Strategy[]).map((s) => {
                     const selected = strategy === s;
                     return (
                       <div
@@ -468,9 +349,8 @@ export default function DebtPayoffPlannerDemoPage() {
                   Total monthly budget for debt payoff
                 </h2>
                 <div className="mt-3 flex items-baseline gap-1">
-                  <span className="text-sm text-slate-300">$</span>
                   <span className="text-lg font-semibold text-emerald-300">
-                    {state.extraBudget.toFixed(2)}
+                    {formatCurrency(state.extraBudget, money)}
                   </span>
                 </div>
                 <p className="mt-2 text-xs text-slate-400">
@@ -528,10 +408,18 @@ export default function DebtPayoffPlannerDemoPage() {
                       </span>{" "}
                       to debt-free
                     </div>
+                    {payoffDate && (
+                      <div>
+                        Debt free by{" "}
+                        <span className="font-semibold text-emerald-300">
+                          {formatPlanDate(payoffDate, false, money.locale)}
+                        </span>
+                      </div>
+                    )}
                     <div>
                       Interest paid:{" "}
                       <span className="font-semibold text-emerald-300">
-                        ${totalInterestPaid.toFixed(2)}
+                        {formatCurrency(totalInterestPaid, money)}
                       </span>
                     </div>
                   </div>
@@ -556,6 +444,9 @@ export default function DebtPayoffPlannerDemoPage() {
                           borderRadius: 8,
                           fontSize: 12,
                         }}
+                        formatter={(value: number | string) =>
+                          formatCurrency(Number(value), money)
+                        }
                       />
                       <Legend />
                       <Line
@@ -609,7 +500,7 @@ export default function DebtPayoffPlannerDemoPage() {
                           >
                             <span>{p.name}</span>
                             <span className="font-semibold text-emerald-300">
-                              ${p.totalPayment.toFixed(2)}
+                              {formatCurrency(p.totalPayment, money)}
                             </span>
                           </li>
                         ))}
@@ -617,7 +508,7 @@ export default function DebtPayoffPlannerDemoPage() {
                     <div className="flex items-center justify-between border-t border-slate-800 pt-2 text-xs text-slate-300">
                       <span>Total this month</span>
                       <span className="font-semibold text-emerald-300">
-                        ${nextMonth.totalPayment.toFixed(2)}
+                        {formatCurrency(nextMonth.totalPayment, money)}
                       </span>
                     </div>
                   </>
@@ -678,7 +569,7 @@ export default function DebtPayoffPlannerDemoPage() {
                 <div className="text-xs text-slate-300">
                   Starting total balance:{" "}
                   <span className="font-semibold text-emerald-300">
-                    ${totalBalanceStart.toFixed(2)}
+                    {formatCurrency(totalBalanceStart, money)}
                   </span>
                   <br />
                   Months to payoff:{" "}
@@ -721,35 +612,43 @@ export default function DebtPayoffPlannerDemoPage() {
                     {schedule.map((m) =>
                       m.payments.map((p) => (
                         <tr
-                          key={`${m.monthIndex}-${p.debtId}`}
+                          key={`${m.month}-${p.debtId}`}
                           className="border-t border-slate-900/70 odd:bg-slate-900/40 even:bg-slate-900/60 hover:bg-slate-800/80"
                         >
                           <td className="py-1.5 px-3 align-middle text-slate-200">
-                            Month {m.monthIndex}
+                            {formatPlanDate(m.date, true, money.locale)}
+                            {m.lumpSum > 0 && (
+                              <span className="ml-1 text-sky-300">💰</span>
+                            )}
+                            <span className="block text-[10px] text-slate-500">
+                              due {formatDueDate(p.dueDate, money.locale)}
+                            </span>
                           </td>
                           <td className="py-1.5 px-3 align-middle text-slate-200">
                             {p.name}
                           </td>
                           <td className="py-1.5 px-3 align-middle text-right text-slate-200">
-                            ${p.balanceStart.toFixed(2)}
+                            {formatCurrency(p.balanceStart, money)}
                           </td>
                           <td className="py-1.5 px-3 align-middle text-right text-slate-200">
-                            ${p.minPayment.toFixed(2)}
+                            {formatCurrency(p.minPayment, money)}
                           </td>
                           <td className="py-1.5 px-3 align-middle text-right">
                             {p.extraPayment > 0 ? (
                               <span className="font-semibold text-emerald-300">
-                                +${p.extraPayment.toFixed(2)}
+                                +{formatCurrency(p.extraPayment, money)}
                               </span>
                             ) : (
-                              <span className="text-slate-300">$0.00</span>
+                              <span className="text-slate-300">
+                                {formatCurrency(0, money)}
+                              </span>
                             )}
                           </td>
                           <td className="py-1.5 px-3 align-middle text-right text-slate-200">
-                            ${p.totalPayment.toFixed(2)}
+                            {formatCurrency(p.totalPayment, money)}
                           </td>
                           <td className="py-1.5 px-3 align-middle text-right text-slate-200">
-                            ${p.balanceEnd.toFixed(2)}
+                            {formatCurrency(p.balanceEnd, money)}
                           </td>
                         </tr>
                       ))
@@ -3,16 +3,34 @@
 import { useState, useMemo, useEffect } from "react";
 import Image from "next/image";
 import {
-  LineChart,
+  ComposedChart,
+  Area,
   Line,
   XAxis,
   YAxis,
   CartesianGrid,
   Tooltip,
   ResponsiveContainer,
+  ReferenceLine,
 } from "recharts";
 
 import AIRecommendationCard from "../src/components/AIRecommendationCard";
+import BalanceTransferPanel from "@/components/BalanceTransferPanel";
+import ConsolidationPanel from "@/components/ConsolidationPanel";
+import LumpSumEditor from "@/components/LumpSumEditor";
+import BudgetTimelineEditor from "@/components/BudgetTimelineEditor";
+import CustomOrderEditor from "@/components/CustomOrderEditor";
+import EmergencyFundEditor from "@/components/EmergencyFundEditor";
+import GoalPanel from "@/components/GoalPanel";
+import InvestVsPayDownPanel from "@/components/InvestVsPayDownPanel";
+import MissedPaymentPanel from "@/components/MissedPaymentPanel";
+import MonteCarloPanel from "@/components/MonteCarloPanel";
+import SensitivityPanel from "@/components/SensitivityPanel";
+import StrategyComparisonPanel from "@/components/StrategyComparisonPanel";
+import PlanDiffPanel, {
+  type PlanDiffScenario,
+} from "@/components/PlanDiffPanel";
+import UtilizationPanel from "@/components/UtilizationPanel";
 import { type AiRecommendation } from "../aiRecommendations";
 
 import {
@@ -22,12 +40,30 @@ import {
   ScheduleRow,
   runPlanSafe,
   calculatePlan,
-  findIdealBudgetSimple,
   formatCurrency,
+  currencySymbol,
+  MONEY_FORMAT_PRESETS,
+  getAprForMonth,
+  getStartingMinimum,
+  getDebtPayoffDates,
+  getPayoffDate,
+  formatPlanDate,
+  parsePlanDate,
+  runMinimumsOnlyPlan,
+  type BudgetChange,
+  type DebtKind,
+  type EmergencyFundPlan,
+  type SpendMode,
+  type InterestAccrual,
+  type InterestRounding,
+  type LumpSum,
+  type MinPaymentRule,
+  type PlanOptions,
   getStrategyLabel,
 } from "@/lib/debtPlan";
+import { type FanPoint, type MonteCarloResult } from "@/lib/monteCarlo";
 
-import { useDebtStore } from "@/lib/debtStore";
+import { useDebtStore, useMoneyFormat } from "@/lib/debtStore";
 
 // ----------------------------------------------------
 // Types
@@ -51,6 +87,16 @@ type DashboardSummary = {
   projectedMonths: number;
   monthlyPayment: number;
   interestSaved: number;
+  // month 1 split straight from the engine's schedule
+  firstMonthInterest: number;
+  firstMonthPrincipal: number;
+  payoffDate?: string; // ISO yyyy-mm-dd of the final month
+  // only when the plan builds an emergency fund
+  emergencyFund?: {
+    target: number;
+    balanceAfterMonthOne: number;
+    filledDate?: string; // ISO yyyy-mm-dd of the first month at target
+  };
   chartData: { monthLabel: string; balance: number }[];
 };
 
@@ -87,15 +133,39 @@ function getAltStrategy(strategy: Strategy): Strategy {
 
 type BalanceChartProps = {
   schedule: ScheduleRow[];
+  // Monte Carlo spread drawn around the line (P10–P90 band + P50)
+  fan?: FanPoint[];
 };
 
-const BalanceChart: React.FC<BalanceChartProps> = ({ schedule }) => {
+const BalanceChart: React.FC<BalanceChartProps> = ({ schedule, fan = [] }) => {
+  const money = useMoneyFormat();
   if (!schedule.length) return null;
 
-  const data = schedule.map((row) => ({
-    month: row.month,
-    balance: row.totalBalanceEnd,
-  }));
+  // months where a one-off payment landed get a marker
+  const lumpMonths = schedule.filter((row) => row.lumpSum > 0);
+
+  // the band can run past the plan's own payoff month
+  const data = Array.from(
+    { length: Math.max(schedule.length, fan.length) },
+    (_, i) => ({
+      month: i + 1,
+      balance: schedule[i]?.totalBalanceEnd,
+      range: fan[i] ? [fan[i].p10, fan[i].p90] : undefined,
+      median: fan[i]?.p50,
+    })
+  );
+
+  // x stays the plan month (the markers key on it); labels show the date
+  const dateByMonth = new Map([
+    ...fan.map((p) => [p.month, p.date] as const),
+    ...schedule.map((row) => [row.month, row.date] as const),
+  ]);
+  const dateLabel = (month: number, short: boolean) => {
+    const date = dateByMonth.get(month);
+    return date
+      ? formatPlanDate(date, short, money.locale)
+      : `Month ${month}`;
+  };
 
   const yTickFormatter = (value: number) =>
     value >= 1000 ? `${(value / 1000).toFixed(0)}k` : value.toFixed(0);
@@ -112,12 +182,16 @@ const BalanceChart: React.FC<BalanceChartProps> = ({ schedule }) => {
       }}
     >
       <ResponsiveContainer width="100%" height="100%">
-        <LineChart data={data} margin={{ top: 8, right: 8, left: 0, bottom: 8 }}>
+        <ComposedChart
+          data={data}
+          margin={{ top: 8, right: 8, left: 0, bottom: 8 }}
+        >
           <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" />
           <XAxis
             dataKey="month"
             tick={{ fontSize: 10, fill: "#9ca3af" }}
             stroke="#4b5563"
+            tickFormatter={(month: number) => dateLabel(month, true)}
           />
           <YAxis
             tick={{ fontSize: 10, fill: "#9ca3af" }}
@@ -132,21 +206,55 @@ const BalanceChart: React.FC<BalanceChartProps> = ({ schedule }) => {
               borderRadius: "8px",
               fontSize: "11px",
             }}
-            formatter={(value: number | string) => [
-              formatCurrency(Number(value)),
-              "Balance",
+            formatter={(value, name) => [
+              Array.isArray(value)
+                ? value.map((v) => formatCurrency(Number(v), money)).join(" – ")
+                : formatCurrency(Number(value), money),
+              name,
             ]}
-            labelFormatter={(label) => `Month ${label}`}
+            labelFormatter={(label) => dateLabel(Number(label), false)}
           />
+          {lumpMonths.map((row) => (
+            <ReferenceLine
+              key={row.month}
+              x={row.month}
+              stroke="#38bdf8"
+              strokeDasharray="4 2"
+              label={{ value: "💰", position: "top", fontSize: 12 }}
+            />
+          ))}
+          {fan.length > 0 && (
+            <Area
+              type="monotone"
+              dataKey="range"
+              name="Likely range (P10–P90)"
+              stroke="none"
+              fill="#22c55e"
+              fillOpacity={0.15}
+              activeDot={false}
+            />
+          )}
+          {fan.length > 0 && (
+            <Line
+              type="monotone"
+              dataKey="median"
+              name="Typical (P50)"
+              stroke="#86efac"
+              strokeWidth={1}
+              strokeDasharray="4 3"
+              dot={false}
+            />
+          )}
           <Line
             type="monotone"
             dataKey="balance"
+            name="Balance"
             stroke="#22c55e"
             strokeWidth={2}
             dot={false}
             activeDot={{ r: 4 }}
           />
-        </LineChart>
+        </ComposedChart>
       </ResponsiveContainer>
     </div>
   );
@@ -221,9 +329,21 @@ export default function Home() {
     state,
     setDebts: setGlobalDebts,
     setStrategy: setGlobalStrategy,
+    setComparisonWinner: setGlobalComparisonWinner,
+    setCustomOrder: setGlobalCustomOrder,
     setExtraBudget,
+    setInterestAccrual: setGlobalInterestAccrual,
+    setInterestRounding: setGlobalInterestRounding,
+    setPaymentDay: setGlobalPaymentDay,
+    setPlanStartDate: setGlobalPlanStartDate,
+    setLumpSums: setGlobalLumpSums,
+    setBudgetTimeline: setGlobalBudgetTimeline,
+    setEmergencyFund: setGlobalEmergencyFund,
     setDashboardSummary,
+    setMoneyFormat,
+    setMarginalTaxRate: setGlobalMarginalTaxRate,
   } = useDebtStore();
+  const money = useMoneyFormat();
 
   // debts start with empty numeric fields so no leading 0s
   const [debts, setDebts] = useState<Debt[]>([
@@ -231,7 +351,19 @@ export default function Home() {
   ]);
 
   const [strategy, setStrategy] = useState<Strategy>("warrior");
+  const [customOrder, setCustomOrder] = useState<number[]>([]);
   const [monthlyBudget, setMonthlyBudget] = useState<string>("");
+  const [interestAccrual, setInterestAccrual] =
+    useState<InterestAccrual>("monthly");
+  const [interestRounding, setInterestRounding] =
+    useState<InterestRounding>("round");
+  const [paymentDay, setPaymentDay] = useState<string>("");
+  const [planStartDate, setPlanStartDate] = useState<string>(""); // yyyy-mm
+  const [marginalTaxRate, setMarginalTaxRate] = useState<string>(""); // %
+  const [lumpSums, setLumpSums] = useState<LumpSum[]>([]);
+  const [budgetTimeline, setBudgetTimeline] = useState<BudgetChange[]>([]);
+  const [emergencyFund, setEmergencyFund] =
+    useState<EmergencyFundPlan | null>(null);
   const [result, setResult] = useState<PlanResult | null>(null);
   const [showSchedule, setShowSchedule] = useState(false);
   const [recommendationNote, setRecommendationNote] = useState<string | null>(
@@ -244,11 +376,15 @@ export default function Home() {
   // saved snapshot for comparisons (debts + budget used)
   const [savedDebts, setSavedDebts] = useState<Debt[] | null>(null);
   const [lastBudgetUsed, setLastBudgetUsed] = useState<number | null>(null);
+  const [savedOptions, setSavedOptions] = useState<PlanOptions>({});
 
   // what-if slider
   const [extraPerMonth, setExtraPerMonth] = useState<number>(0);
   const [whatIfPlan, setWhatIfPlan] = useState<PlanResult | null>(null);
 
+  // Monte Carlo spread around the plan (cleared whenever the plan changes)
+  const [monteCarlo, setMonteCarlo] = useState<MonteCarloResult | null>(null);
+
   // --------------------------------------------------
   // Sync FROM global store into Home when it’s already populated
   // --------------------------------------------------
@@ -261,9 +397,45 @@ export default function Home() {
       setStrategy(state.strategy);
     }
 
+    if (state.customOrder && state.customOrder.length) {
+      setCustomOrder(state.customOrder);
+    }
+
     if (state.extraBudget && state.extraBudget > 0) {
       setMonthlyBudget(state.extraBudget.toString());
     }
+
+    if (state.interestAccrual) {
+      setInterestAccrual(state.interestAccrual);
+    }
+
+    if (state.interestRounding) {
+      setInterestRounding(state.interestRounding);
+    }
+
+    if (state.paymentDay) {
+      setPaymentDay(state.paymentDay.toString());
+    }
+
+    if (state.planStartDate) {
+      setPlanStartDate(state.planStartDate);
+    }
+
+    if (state.marginalTaxRate) {
+      setMarginalTaxRate(state.marginalTaxRate.toString());
+    }
+
+    if (state.lumpSums && state.lumpSums.length) {
+      setLumpSums(state.lumpSums);
+    }
+
+    if (state.budgetTimeline && state.budgetTimeline.length) {
+      setBudgetTimeline(state.budgetTimeline);
+    }
+
+    if (state.emergencyFund) {
+      setEmergencyFund(state.emergencyFund);
+    }
     // intentionally only on mount
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
@@ -281,15 +453,20 @@ export default function Home() {
   const progressRatio = Math.min(totalRemaining / MAX_DEBT_FOR_BAR, 1);
 
   // --------------------------------------------------
-  // Derived insights (comparison, what-if, ideal budget)
+  // Derived insights (comparison, what-if)
   // --------------------------------------------------
 
   const comparisonSummary: ComparisonSummary | null = useMemo(() => {
     if (!result || !savedDebts || lastBudgetUsed == null) return null;
 
     const alt = getAltStrategy(result.strategyUsed);
-    const basePlan = runPlanSafe(savedDebts, lastBudgetUsed, result.strategyUsed);
-    const altPlan = runPlanSafe(savedDebts, lastBudgetUsed, alt);
+    const basePlan = runPlanSafe(
+      savedDebts,
+      lastBudgetUsed,
+      result.strategyUsed,
+      savedOptions
+    );
+    const altPlan = runPlanSafe(savedDebts, lastBudgetUsed, alt, savedOptions);
     if (!basePlan || !altPlan) return null;
 
     const interestDiff = altPlan.totalInterest - basePlan.totalInterest;
@@ -300,7 +477,7 @@ export default function Home() {
       interestDiff,
       monthsDiff,
     };
-  }, [result, savedDebts, lastBudgetUsed]);
+  }, [result, savedDebts, lastBudgetUsed, savedOptions]);
 
   const whatIfSummary: WhatIfSummary | null = useMemo(() => {
     if (!result || !whatIfPlan) return null;
@@ -314,11 +491,18 @@ export default function Home() {
     };
   }, [result, whatIfPlan, extraPerMonth]);
 
-  const idealBudget = useMemo(() => {
-    if (!result || !savedDebts) return null;
-    // target ≈ 36 months (3 years)
-    return findIdealBudgetSimple(savedDebts, result.strategyUsed, 36);
-  }, [result, savedDebts]);
+  // extra plans the diff view can compare against (besides the strategies)
+  const diffScenarios: PlanDiffScenario[] = useMemo(() => {
+    if (!whatIfPlan || extraPerMonth <= 0) return [];
+    return [
+      {
+        key: "whatIf",
+        label: `+${formatCurrency(extraPerMonth, money)}/mo extra`,
+        plan: whatIfPlan,
+      },
+    ];
+  }, [whatIfPlan, extraPerMonth, money]);
+
 
   const scheduleToShow: ScheduleRow[] = useMemo(() => {
     const plan = whatIfPlan ?? result;
@@ -339,7 +523,7 @@ export default function Home() {
   const handleDebtChange = (
     id: number,
     field: keyof Omit<Debt, "id">,
-    value: string
+    value: string | boolean
   ) => {
     setDebts((prev) =>
       prev.map((d) =>
@@ -376,17 +560,69 @@ export default function Home() {
     setExtraBudget(numeric); // sync to global store
   };
 
+  const handleAccrualChange = (value: InterestAccrual) => {
+    setInterestAccrual(value);
+    setGlobalInterestAccrual(value); // sync to global store
+  };
+
+  const handleRoundingChange = (value: InterestRounding) => {
+    setInterestRounding(value);
+    setGlobalInterestRounding(value); // sync to global store
+  };
+
+  const handlePaymentDayChange = (value: string) => {
+    setPaymentDay(value);
+    const day = parseInt(value || "0", 10);
+    setGlobalPaymentDay(day > 0 ? day : null); // sync to global store
+  };
+
+  const handleMarginalTaxRateChange = (value: string) => {
+    setMarginalTaxRate(value);
+    const rate = parseFloat(value || "0");
+    setGlobalMarginalTaxRate(rate > 0 ? rate : null); // sync to global store
+  };
+
+  const handlePlanStartDateChange = (value: string) => {
+    setPlanStartDate(value);
+    setGlobalPlanStartDate(value || null); // sync to global store
+  };
+
+  const handleLumpSumsChange = (value: LumpSum[]) => {
+    setLumpSums(value);
+    setGlobalLumpSums(value); // sync to global store
+  };
+
+  const handleBudgetTimelineChange = (value: BudgetChange[]) => {
+    setBudgetTimeline(value);
+    setGlobalBudgetTimeline(value); // sync to global store
+  };
+
+  const handleEmergencyFundChange = (value: EmergencyFundPlan | null) => {
+    setEmergencyFund(value);
+    setGlobalEmergencyFund(value); // sync to global store
+  };
+
   const handleStrategyChange = (newStrategy: Strategy) => {
     setStrategy(newStrategy);
     setGlobalStrategy(newStrategy); // sync to global store
   };
 
+  // the comparison's winner becomes the strategy for the next plan
+  const handleComparisonWinnerChange = (winner: Strategy) => {
+    setGlobalComparisonWinner(winner); // sync to global store
+    handleStrategyChange(winner);
+  };
+
+  const handleCustomOrderChange = (order: number[]) => {
+    setCustomOrder(order);
+    setGlobalCustomOrder(order); // sync to global store
+  };
+
   const handleGeneratePlan = () => {
     // 1) Filter out empty debts
     const nonEmpty = debts.filter(
       (d) =>
-        parseFloat(d.balance || "0") > 0 &&
-        parseFloat(d.minPayment || "0") > 0
+        parseFloat(d.balance || "0") > 0 && getStartingMinimum(d) > 0
     );
 
     // Push cleaned debts into global store so Demo/Dashboard can see them
@@ -417,13 +653,13 @@ export default function Home() {
 
     // 3) Compute min-payment budget and starting monthly interest
     const minBudget = nonEmpty.reduce(
-      (sum, d) => sum + (parseFloat(d.minPayment || "0") || 0),
+      (sum, d) => sum + (getStartingMinimum(d) || 0),
       0
     );
 
     const startingMonthlyInterest = nonEmpty.reduce((sum, d) => {
       const bal = parseFloat(d.balance || "0") || 0;
-      const apr = parseFloat(d.apr || "0") || 0;
+      const apr = getAprForMonth(d, 1); // promo rate if one is running
       const monthlyRate = apr / 100 / 12;
       return sum + bal * monthlyRate;
     }, 0);
@@ -441,7 +677,30 @@ export default function Home() {
     }
 
     // 4) Run main plan
-    const planOrError = calculatePlan(nonEmpty, monthlyBudget, strategy);
+    const day = parseInt(paymentDay || "0", 10);
+    const planOptions: PlanOptions = {
+      interestAccrual,
+      interestRounding,
+      paymentDay: day > 0 ? day : undefined,
+      startDate: parsePlanDate(planStartDate) ?? new Date(),
+      marginalTaxRate: parseFloat(marginalTaxRate || "0") || undefined,
+      lumpSums: lumpSums.filter((l) => l.amount > 0),
+      budgetTimeline: budgetTimeline.filter((c) => c.amount > 0),
+      emergencyFund: emergencyFund
+        ? {
+          ...emergencyFund,
+          draws: (emergencyFund.draws ?? []).filter((w) => w.amount > 0),
+        }
+        : undefined,
+      customOrder,
+      money,
+    };
+    const planOrError = calculatePlan(
+      nonEmpty,
+      monthlyBudget,
+      strategy,
+      planOptions
+    );
 
     if ("error" in planOrError) {
       setPlanError(planOrError.error);
@@ -458,7 +717,9 @@ export default function Home() {
     setResult(plan);
     setSavedDebts(nonEmpty);
     setLastBudgetUsed(budgetNumber);
+    setSavedOptions(planOptions);
     setWhatIfPlan(null);
+    setMonteCarlo(null);
 
     // 5) Total starting debt
     const totalDebt = nonEmpty.reduce(
@@ -466,8 +727,12 @@ export default function Home() {
       0
     );
 
-    // 6) Build baseline “min payments only” plan
-    const baselinePlan = runPlanSafe(nonEmpty, minBudget, plan.strategyUsed);
+    // 6) Build baseline “min payments only” plan (minimums recomputed monthly)
+    const baselinePlan = runMinimumsOnlyPlan(
+      nonEmpty,
+      plan.strategyUsed,
+      planOptions
+    );
 
     let interestSaved = 0;
 
@@ -495,13 +760,27 @@ export default function Home() {
     }
 
     // 7) Build dashboard summary
+    const firstMonth = plan.schedule[0];
+    const fund = planOptions.emergencyFund;
     const summary: DashboardSummary = {
       totalDebt,
       projectedMonths: plan.months,
       monthlyPayment: budgetNumber,
       interestSaved,
+      firstMonthInterest: firstMonth?.interestPaid ?? 0,
+      firstMonthPrincipal: firstMonth?.principalPaid ?? 0,
+      payoffDate: getPayoffDate(plan) ?? undefined,
+      emergencyFund: fund
+        ? {
+          target: fund.target,
+          balanceAfterMonthOne: firstMonth?.fundBalanceEnd ?? 0,
+          filledDate: plan.schedule.find(
+            (row) => row.fundBalanceEnd >= fund.target
+          )?.date,
+        }
+        : undefined,
       chartData: plan.schedule.map((row) => ({
-        monthLabel: `Month ${row.month}`,
+        monthLabel: formatPlanDate(row.date, true, money.locale),
         balance: row.totalBalanceEnd,
       })),
     };
@@ -537,7 +816,7 @@ export default function Home() {
     } else {
       chosen = "wizard";
       note =
-        "Your debts are fairly balanced. The Wizard’s blended approach is a solid middle ground between motivation and interest savings.";
+        "Your debts are fairly balanced, so the order matters less than it looks. The Wizard searches every month’s payoff order for the lowest total interest.";
     }
 
     handleStrategyChange(chosen);
@@ -552,11 +831,19 @@ export default function Home() {
       return;
     }
 
+    // the extra rides on top of every stage of the budget timeline
     const extraBudget = lastBudgetUsed + value;
     const extraPlan = runPlanSafe(
       savedDebts,
       extraBudget,
-      result.strategyUsed
+      result.strategyUsed,
+      {
+        ...savedOptions,
+        budgetTimeline: savedOptions.budgetTimeline?.map((c) => ({
+          ...c,
+          amount: c.amount + value,
+        })),
+      }
     );
 
     if (!extraPlan) {
@@ -573,31 +860,52 @@ export default function Home() {
     const years = result.months / MONTHS_IN_YEAR;
     const lifetimes = years / LIFETIME_YEARS;
     const label = getStrategyLabel(result.strategyUsed);
+    const feesNote =
+      result.totalFees > 0.005
+        ? ` Plus ${formatCurrency(
+          result.totalFees,
+          money
+        )} in prepayment penalties.`
+        : "";
+    const afterTaxNote =
+      result.afterTaxInterest < result.totalInterest - 0.005
+        ? ` After the tax deduction: ${formatCurrency(
+          result.afterTaxInterest,
+          money
+        )}.`
+        : "";
 
     // CASE 1: More than 1 lifetime → show lifetimes only
     if (years > LIFETIME_YEARS) {
       return `🔥 With ${label} strategy, you could be debt free in about ${lifetimes.toFixed(
         1
       )} lifetimes. Estimated total interest paid: ${formatCurrency(
-        result.totalInterest
-      )}.`;
+        result.totalInterest,
+        money
+      )}.${afterTaxNote}${feesNote}`;
     }
 
     // CASE 2: Exactly 1 lifetime → "1 lifetime"
     if (Math.abs(years - LIFETIME_YEARS) < 0.001) {
       return `🔥 With ${label} strategy, you could be debt free in 1 lifetime. Estimated total interest paid: ${formatCurrency(
-        result.totalInterest
-      )}.`;
+        result.totalInterest,
+        money
+      )}.${afterTaxNote}${feesNote}`;
     }
 
-    // CASE 3: Less than 1 lifetime → months + years
-    return `🔥 With ${label} strategy, you could be debt free in ${result.months.toFixed(
+    // CASE 3: Less than 1 lifetime → payoff date + months + years
+    const payoffDate = getPayoffDate(result);
+    const byDate = payoffDate
+      ? ` by ${formatPlanDate(payoffDate, false, money.locale)}`
+      : "";
+    return `🔥 With ${label} strategy, you could be debt free${byDate} — ${result.months.toFixed(
       0
     )} months (~${years.toFixed(
       1
     )} years). Estimated total interest paid: ${formatCurrency(
-      result.totalInterest
-    )}.`;
+      result.totalInterest,
+      money
+    )}.${afterTaxNote}${feesNote}`;
   };
 
   // --------------------------------------------------
@@ -606,6 +914,7 @@ export default function Home() {
 
   const activePlan = whatIfPlan ?? result;
   const activeSchedule: ScheduleRow[] = activePlan?.schedule ?? [];
+  const activePayoffDates = activePlan ? getDebtPayoffDates(activePlan) : [];
 
   return (
     <main
@@ -699,7 +1008,7 @@ export default function Home() {
             }}
           >
             <span>Total remaining debt:</span>
-            <span>{formatCurrency(totalRemaining)}</span>
+            <span>{formatCurrency(totalRemaining, money)}</span>
           </div>
 
           {/* Debt-size progress bar */}
@@ -732,7 +1041,7 @@ export default function Home() {
             }}
           >
             Progress reflects your total credit card debt. The bar fills at{" "}
-            {formatCurrency(MAX_DEBT_FOR_BAR)}.
+            {formatCurrency(MAX_DEBT_FOR_BAR, money)}.
           </div>
 
           {/* column labels for desktop */}
@@ -747,111 +1056,530 @@ export default function Home() {
             }}
           >
             <span>Name</span>
-            <span>Balance ($)</span>
+            <span>Balance ({currencySymbol(money)})</span>
             <span>APR (%)</span>
-            <span>Min Payment ($)</span>
+            <span>Min Payment ({currencySymbol(money)})</span>
             <span />
           </div>
 
           {debts.map((d) => (
-            <div
-              key={d.id}
-              style={{
-                display: "grid",
-                gridTemplateColumns: "1.3fr 1fr 1fr 1fr 60px",
-                gap: "8px",
-                marginBottom: "8px",
-              }}
-            >
-              <input
-                type="text"
-                value={d.name}
-                onChange={(e) =>
-                  handleDebtChange(d.id, "name", e.target.value)
-                }
+            <div key={d.id} style={{ marginBottom: "12px" }}>
+              <div
                 style={{
-                  borderRadius: "8px",
-                  border: "1px solid #374151",
-                  background: "#020617",
-                  padding: "8px 10px",
-                  color: "#f9fafb",
-                  fontSize: "13px",
-                  minWidth: 0,
+                  display: "grid",
+                  gridTemplateColumns: "1.3fr 1fr 1fr 1fr 60px",
+                  gap: "8px",
+                  marginBottom: "4px",
                 }}
-              />
+              >
+                <input
+                  type="text"
+                  value={d.name}
+                  onChange={(e) =>
+                    handleDebtChange(d.id, "name", e.target.value)
+                  }
+                  style={{
+                    borderRadius: "8px",
+                    border: "1px solid #374151",
+                    background: "#020617",
+                    padding: "8px 10px",
+                    color: "#f9fafb",
+                    fontSize: "13px",
+                    minWidth: 0,
+                  }}
+                />
+
+                <input
+                  type="number"
+                  inputMode="decimal"
+                  placeholder="e.g. 5000"
+                  min={0}
+                  value={d.balance}
+                  onChange={(e) =>
+                    handleDebtChange(d.id, "balance", e.target.value)
+                  }
+                  style={{
+                    borderRadius: "8px",
+                    border: "1px solid #374151",
+                    background: "#020617",
+                    padding: "8px 10px",
+                    color: "#f9fafb",
+                    fontSize: "13px",
+                    minWidth: 0,
+                  }}
+                />
+
+                <input
+                  type="number"
+                  inputMode="decimal"
+                  step="0.01"
+                  placeholder="e.g. 24.99"
+                  min={0}
+                  value={d.apr}
+                  onChange={(e) => handleDebtChange(d.id, "apr", e.target.value)}
+                  style={{
+                    borderRadius: "8px",
+                    border: "1px solid #374151",
+                    background: "#020617",
+                    padding: "8px 10px",
+                    color: "#f9fafb",
+                    fontSize: "13px",
+                    minWidth: 0,
+                  }}
+                />
+
+                <input
+                  type="number"
+                  inputMode="decimal"
+                  step="0.01"
+                  placeholder="e.g. 75"
+                  min={0}
+                  value={d.minPayment}
+                  onChange={(e) => handleDebtChange(d.id, "minPayment", e.target.value)}
+                  style={{
+                    borderRadius: "8px",
+                    border: "1px solid #374151",
+                    background: "#020617",
+                    padding: "8px 10px",
+                    color: "#f9fabfb",
+                    fontSize: "13px",
+                    minWidth: 0,
+                  }}
+                />
 
-              <input
-                type="number"
-                inputMode="decimal"
-                placeholder="e.g. 5000"
-                min={0}
-                value={d.balance}
-                onChange={(e) =>
-                  handleDebtChange(d.id, "balance", e.target.value)
-                }
-                style={{
-                  borderRadius: "8px",
-                  border: "1px solid #374151",
-                  background: "#020617",
-                  padding: "8px 10px",
-                  color: "#f9fafb",
-                  fontSize: "13px",
-                  minWidth: 0,
-                }}
-              />
+                <button
+                  type="button"
+                  onClick={() => handleRemoveCard(d.id)}
+                  style={{
+                    borderRadius: "8px",
+                    border: "none",
+                    background: "#7f1d1d",
+                    color: "#fee2e2",
+                    fontSize: "12px",
+                    cursor: "pointer",
+                  }}
+                >
+                  ✕
+                </button>
+              </div>
 
-              <input
-                type="number"
-                inputMode="decimal"
-                step="0.01"
-                placeholder="e.g. 24.99"
-                min={0}
-                value={d.apr}
-                onChange={(e) => handleDebtChange(d.id, "apr", e.target.value)}
+              {/* card vs fixed-term loan */}
+              <div
                 style={{
-                  borderRadius: "8px",
-                  border: "1px solid #374151",
-                  background: "#020617",
-                  padding: "8px 10px",
-                  color: "#f9fafb",
-                  fontSize: "13px",
-                  minWidth: 0,
+                  display: "grid",
+                  gridTemplateColumns: "1.3fr 1fr 1fr 1fr 60px",
+                  gap: "8px",
+                  alignItems: "center",
+                  marginBottom: "4px",
                 }}
-              />
+              >
+                <span style={{ fontSize: "11px", color: "#6b7280" }}>
+                  Debt type
+                </span>
+
+                <select
+                  value={d.kind ?? "revolving"}
+                  onChange={(e) =>
+                    handleDebtChange(d.id, "kind", e.target.value as DebtKind)
+                  }
+                  style={{
+                    borderRadius: "8px",
+                    border: "1px solid #1f2937",
+                    background: "#020617",
+                    padding: "6px 10px",
+                    color: "#f9fafb",
+                    fontSize: "12px",
+                    minWidth: 0,
+                  }}
+                >
+                  <option value="revolving">Credit card</option>
+                  <option value="installment">Installment loan</option>
+                </select>
+
+                {d.kind === "installment" ? (
+                  <>
+                    <input
+                      type="number"
+                      inputMode="numeric"
+                      step="1"
+                      placeholder="Months left, e.g. 48"
+                      min={0}
+                      value={d.termMonths ?? ""}
+                      onChange={(e) =>
+                        handleDebtChange(d.id, "termMonths", e.target.value)
+                      }
+                      style={{
+                        borderRadius: "8px",
+                        border: "1px solid #1f2937",
+                        background: "#020617",
+                        padding: "6px 10px",
+                        color: "#f9fafb",
+                        fontSize: "12px",
+                        minWidth: 0,
+                      }}
+                    />
+
+                    <input
+                      type="number"
+                      inputMode="decimal"
+                      step="0.1"
+                      placeholder="Prepay penalty %"
+                      min={0}
+                      value={d.prepaymentPenaltyPct ?? ""}
+                      onChange={(e) =>
+                        handleDebtChange(
+                          d.id,
+                          "prepaymentPenaltyPct",
+                          e.target.value
+                        )
+                      }
+                      style={{
+                        borderRadius: "8px",
+                        border: "1px solid #1f2937",
+                        background: "#020617",
+                        padding: "6px 10px",
+                        color: "#f9fafb",
+                        fontSize: "12px",
+                        minWidth: 0,
+                      }}
+                    />
+                  </>
+                ) : (
+                  <>
+                    <input
+                      type="number"
+                      inputMode="decimal"
+                      step="0.01"
+                      placeholder="Credit limit (optional)"
+                      min={0}
+                      value={d.creditLimit ?? ""}
+                      onChange={(e) =>
+                        handleDebtChange(d.id, "creditLimit", e.target.value)
+                      }
+                      style={{
+                        borderRadius: "8px",
+                        border: "1px solid #1f2937",
+                        background: "#020617",
+                        padding: "6px 10px",
+                        color: "#f9fafb",
+                        fontSize: "12px",
+                        minWidth: 0,
+                      }}
+                    />
+                    <span />
+                  </>
+                )}
 
-              <input
-                type="number"
-                inputMode="decimal"
-                step="0.01"
-                placeholder="e.g. 75"
-                min={0}
-                value={d.minPayment}
-                onChange={(e) => handleDebtChange(d.id, "minPayment", e.target.value)}
-                style={{
-                  borderRadius: "8px",
-                  border: "1px solid #374151",
-                  background: "#020617",
-                  padding: "8px 10px",
-                  color: "#f9fabfb",
-                  fontSize: "13px",
-                  minWidth: 0,
-                }}
-              />
+                <span />
+              </div>
 
-              <button
-                type="button"
-                onClick={() => handleRemoveCard(d.id)}
+              {/* calendar due day (dates the schedule; daily modes post then) */}
+              <div
                 style={{
-                  borderRadius: "8px",
-                  border: "none",
-                  background: "#7f1d1d",
-                  color: "#fee2e2",
-                  fontSize: "12px",
-                  cursor: "pointer",
+                  display: "grid",
+                  gridTemplateColumns: "1.3fr 1fr 1fr 1fr 60px",
+                  gap: "8px",
+                  alignItems: "center",
+                  marginBottom: "4px",
                 }}
               >
-                ✕
-              </button>
+                <span style={{ fontSize: "11px", color: "#6b7280" }}>
+                  Due day of month
+                </span>
+
+                <input
+                  type="number"
+                  inputMode="numeric"
+                  step="1"
+                  placeholder="e.g. 15"
+                  min={1}
+                  max={31}
+                  value={d.dueDay ?? ""}
+                  onChange={(e) =>
+                    handleDebtChange(d.id, "dueDay", e.target.value)
+                  }
+                  style={{
+                    borderRadius: "8px",
+                    border: "1px solid #1f2937",
+                    background: "#020617",
+                    padding: "6px 10px",
+                    color: "#f9fafb",
+                    fontSize: "12px",
+                    minWidth: 0,
+                  }}
+                />
+
+                <span style={{ fontSize: "11px", color: "#6b7280" }}>
+                  {d.dueDay ? "" : "Blank = end of the month"}
+                </span>
+
+                <label
+                  style={{
+                    gridColumn: "span 2",
+                    display: "flex",
+                    alignItems: "center",
+                    gap: "6px",
+                    fontSize: "11px",
+                    color: "#9ca3af",
+                  }}
+                >
+                  <input
+                    type="checkbox"
+                    checked={d.taxDeductible ?? false}
+                    onChange={(e) =>
+                      handleDebtChange(d.id, "taxDeductible", e.target.checked)
+                    }
+                  />
+                  Interest is tax-deductible
+                </label>
+              </div>
+
+              {d.kind === "installment" && (
+                <div
+                  style={{
+                    fontSize: "11px",
+                    color: "#6b7280",
+                    marginBottom: "4px",
+                  }}
+                >
+                  {parseFloat(d.termMonths || "0") > 0 ? (
+                    <>
+                      Payment works out to{" "}
+                      <strong>
+                        {formatCurrency(getStartingMinimum(d), money)}/mo
+                      </strong>{" "}
+                      over the remaining term (Min Payment is ignored). Extra
+                      payments shorten the term.
+                    </>
+                  ) : (
+                    "Enter the months left to work out the payment, or type the payment in Min Payment."
+                  )}
+                </div>
+              )}
+
+              {/* optional intro / promo APR period */}
+              {d.kind !== "installment" && (
+                <div
+                  style={{
+                    display: "grid",
+                    gridTemplateColumns: "1.3fr 1fr 1fr 1fr 60px",
+                    gap: "8px",
+                    alignItems: "center",
+                  }}
+                >
+                  <span style={{ fontSize: "11px", color: "#6b7280" }}>
+                    Intro APR (optional)
+                  </span>
+
+                  <input
+                    type="number"
+                    inputMode="decimal"
+                    step="0.01"
+                    placeholder="Promo APR, e.g. 0"
+                    min={0}
+                    value={d.promoApr ?? ""}
+                    onChange={(e) =>
+                      handleDebtChange(d.id, "promoApr", e.target.value)
+                    }
+                    style={{
+                      borderRadius: "8px",
+                      border: "1px solid #1f2937",
+                      background: "#020617",
+                      padding: "6px 10px",
+                      color: "#f9fafb",
+                      fontSize: "12px",
+                      minWidth: 0,
+                    }}
+                  />
+
+                  <input
+                    type="number"
+                    inputMode="numeric"
+                    step="1"
+                    placeholder="Ends after month #"
+                    min={0}
+                    value={d.promoEndMonth ?? ""}
+                    onChange={(e) =>
+                      handleDebtChange(d.id, "promoEndMonth", e.target.value)
+                    }
+                    style={{
+                      borderRadius: "8px",
+                      border: "1px solid #1f2937",
+                      background: "#020617",
+                      padding: "6px 10px",
+                      color: "#f9fafb",
+                      fontSize: "12px",
+                      minWidth: 0,
+                    }}
+                  />
+
+                  <input
+                    type="number"
+                    inputMode="decimal"
+                    step="0.01"
+                    placeholder="APR after promo"
+                    min={0}
+                    value={d.postPromoApr ?? ""}
+                    onChange={(e) =>
+                      handleDebtChange(d.id, "postPromoApr", e.target.value)
+                    }
+                    style={{
+                      borderRadius: "8px",
+                      border: "1px solid #1f2937",
+                      background: "#020617",
+                      padding: "6px 10px",
+                      color: "#f9fafb",
+                      fontSize: "12px",
+                      minWidth: 0,
+                    }}
+                  />
+
+                  <span />
+                </div>
+              )}
+
+              {/* minimum payment rule (issuer formula) */}
+              {d.kind !== "installment" && (
+                <div
+                  style={{
+                    display: "grid",
+                    gridTemplateColumns: "1.3fr 1fr 1fr 1fr 60px",
+                    gap: "8px",
+                    alignItems: "center",
+                    marginTop: "4px",
+                  }}
+                >
+                  <span style={{ fontSize: "11px", color: "#6b7280" }}>
+                    Minimum rule
+                  </span>
+
+                  <select
+                    value={d.minPaymentRule ?? "fixed"}
+                    onChange={(e) =>
+                      handleDebtChange(
+                        d.id,
+                        "minPaymentRule",
+                        e.target.value as MinPaymentRule
+                      )
+                    }
+                    style={{
+                      borderRadius: "8px",
+                      border: "1px solid #1f2937",
+                      background: "#020617",
+                      padding: "6px 10px",
+                      color: "#f9fafb",
+                      fontSize: "12px",
+                      minWidth: 0,
+                    }}
+                  >
+                    <option value="fixed">Fixed amount</option>
+                    <option value="percent">% of balance</option>
+                    <option value="percentPlusInterest">
+                      % of balance + interest
+                    </option>
+                  </select>
+
+                  <input
+                    type="number"
+                    inputMode="decimal"
+                    step="0.1"
+                    placeholder="% of balance, e.g. 1"
+                    min={0}
+                    disabled={(d.minPaymentRule ?? "fixed") === "fixed"}
+                    value={d.minPaymentPercent ?? ""}
+                    onChange={(e) =>
+                      handleDebtChange(d.id, "minPaymentPercent", e.target.value)
+                    }
+                    style={{
+                      borderRadius: "8px",
+                      border: "1px solid #1f2937",
+                      background: "#020617",
+                      padding: "6px 10px",
+                      color: "#f9fafb",
+                      fontSize: "12px",
+                      minWidth: 0,
+                      opacity: (d.minPaymentRule ?? "fixed") === "fixed" ? 0.4 : 1,
+                    }}
+                  />
+
+                  <span style={{ fontSize: "11px", color: "#6b7280" }}>
+                    {(d.minPaymentRule ?? "fixed") === "fixed"
+                      ? "Min payment is charged as entered"
+                      : `Min payment above acts as the ${currencySymbol(money)} floor`}
+                  </span>
+
+                  <span />
+                </div>
+              )}
+
+              {/* new purchases while paying the card down */}
+              {d.kind !== "installment" && (
+                <div
+                  style={{
+                    display: "grid",
+                    gridTemplateColumns: "1.3fr 1fr 1fr 1fr 60px",
+                    gap: "8px",
+                    alignItems: "center",
+                    marginTop: "4px",
+                  }}
+                >
+                  <span style={{ fontSize: "11px", color: "#6b7280" }}>
+                    Still using it? (optional)
+                  </span>
+
+                  <input
+                    type="number"
+                    inputMode="decimal"
+                    step="0.01"
+                    placeholder="New spend / month"
+                    min={0}
+                    value={d.monthlySpend ?? ""}
+                    onChange={(e) =>
+                      handleDebtChange(d.id, "monthlySpend", e.target.value)
+                    }
+                    style={{
+                      borderRadius: "8px",
+                      border: "1px solid #1f2937",
+                      background: "#020617",
+                      padding: "6px 10px",
+                      color: "#f9fafb",
+                      fontSize: "12px",
+                      minWidth: 0,
+                    }}
+                  />
+
+                  <select
+                    value={d.spendMode ?? "carried"}
+                    onChange={(e) =>
+                      handleDebtChange(
+                        d.id,
+                        "spendMode",
+                        e.target.value as SpendMode
+                      )
+                    }
+                    style={{
+                      borderRadius: "8px",
+                      border: "1px solid #1f2937",
+                      background: "#020617",
+                      padding: "6px 10px",
+                      color: "#f9fafb",
+                      fontSize: "12px",
+                      minWidth: 0,
+                    }}
+                  >
+                    <option value="carried">Carried on the card</option>
+                    <option value="paidInFull">Paid in full monthly</option>
+                  </select>
+
+                  <span style={{ fontSize: "11px", color: "#6b7280" }}>
+                    {(d.spendMode ?? "carried") === "carried"
+                      ? "Adds to the balance and accrues interest"
+                      : "Comes out of your monthly budget"}
+                  </span>
+
+                  <span />
+                </div>
+              )}
             </div>
           ))}
 
@@ -921,8 +1649,30 @@ export default function Home() {
               active={strategy === "wizard"}
               onClick={() => handleStrategyChange("wizard")}
             />
+
+            <StrategyButton
+              label="Your Order"
+              icon="🧭"
+              active={strategy === "custom"}
+              onClick={() => handleStrategyChange("custom")}
+            />
+
+            <StrategyButton
+              label="The Guardian"
+              icon="🛡️"
+              active={strategy === "guardian"}
+              onClick={() => handleStrategyChange("guardian")}
+            />
           </div>
 
+          {strategy === "custom" && (
+            <CustomOrderEditor
+              debts={debts}
+              order={customOrder}
+              onChange={handleCustomOrderChange}
+            />
+          )}
+
           <div
             style={{
               fontSize: "12px",
@@ -937,7 +1687,12 @@ export default function Home() {
               🧨 <strong>Rebel</strong>: highest APR first (interest savings).
             </div>
             <div>
-              🧙‍♂️ <strong>Wizard</strong>: smart blend of both.
+              🧙‍♂️ <strong>Wizard</strong>: searches for the order with the
+              least total interest (promo deadlines included).
+            </div>
+            <div>
+              🧭 <strong>Your Order</strong>: you pick which card goes first
+              (closing a card, a family loan…).
             </div>
           </div>
 
@@ -978,7 +1733,7 @@ export default function Home() {
               fontSize: "14px",
             }}
           >
-            Total monthly budget for debt payoff ($):
+            Total monthly budget for debt payoff ({currencySymbol(money)}):
           </label>
           <input
             type="number"
@@ -998,6 +1753,180 @@ export default function Home() {
             }}
           />
 
+          <BudgetTimelineEditor
+            changes={budgetTimeline}
+            onChange={handleBudgetTimelineChange}
+          />
+
+          <EmergencyFundEditor
+            fund={emergencyFund}
+            onChange={handleEmergencyFundChange}
+          />
+
+          <div
+            style={{
+              display: "flex",
+              flexWrap: "wrap",
+              gap: "12px",
+              marginBottom: "8px",
+              fontSize: "12px",
+              color: "#9ca3af",
+            }}
+          >
+            <label
+              style={{ display: "flex", flexDirection: "column", gap: "4px" }}
+            >
+              Currency
+              <select
+                value={`${money.currency}|${money.locale}`}
+                onChange={(e) => {
+                  const [currency, locale] = e.target.value.split("|");
+                  setMoneyFormat({ currency, locale });
+                }}
+                style={{
+                  borderRadius: "8px",
+                  border: "1px solid #374151",
+                  background: "#020617",
+                  padding: "8px 10px",
+                  color: "#f9fafb",
+                  fontSize: "13px",
+                }}
+              >
+                {MONEY_FORMAT_PRESETS.map((preset) => (
+                  <option
+                    key={`${preset.money.currency}|${preset.money.locale}`}
+                    value={`${preset.money.currency}|${preset.money.locale}`}
+                  >
+                    {preset.label} — {formatCurrency(1234.5, preset.money)}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label
+              style={{ display: "flex", flexDirection: "column", gap: "4px" }}
+            >
+              Plan starts
+              <input
+                type="month"
+                value={planStartDate}
+                onChange={(e) => handlePlanStartDateChange(e.target.value)}
+                style={{
+                  borderRadius: "8px",
+                  border: "1px solid #374151",
+                  background: "#020617",
+                  padding: "8px 10px",
+                  color: "#f9fafb",
+                  fontSize: "13px",
+                }}
+              />
+            </label>
+
+            <label
+              style={{ display: "flex", flexDirection: "column", gap: "4px" }}
+            >
+              Interest calculation
+              <select
+                value={interestAccrual}
+                onChange={(e) =>
+                  handleAccrualChange(e.target.value as InterestAccrual)
+                }
+                style={{
+                  borderRadius: "8px",
+                  border: "1px solid #374151",
+                  background: "#020617",
+                  padding: "8px 10px",
+                  color: "#f9fafb",
+                  fontSize: "13px",
+                }}
+              >
+                <option value="monthly">Monthly (APR ÷ 12)</option>
+                <option value="averageDailyBalance">
+                  Average daily balance
+                </option>
+                <option value="dailyCompound">Daily compounding</option>
+              </select>
+            </label>
+
+            <label
+              style={{ display: "flex", flexDirection: "column", gap: "4px" }}
+            >
+              Interest rounding
+              <select
+                value={interestRounding}
+                onChange={(e) =>
+                  handleRoundingChange(e.target.value as InterestRounding)
+                }
+                style={{
+                  borderRadius: "8px",
+                  border: "1px solid #374151",
+                  background: "#020617",
+                  padding: "8px 10px",
+                  color: "#f9fafb",
+                  fontSize: "13px",
+                }}
+              >
+                <option value="round">Nearest cent</option>
+                <option value="floor">Round down</option>
+                <option value="bankers">Banker’s rounding</option>
+              </select>
+            </label>
+
+            {interestAccrual !== "monthly" && (
+              <label
+                style={{ display: "flex", flexDirection: "column", gap: "4px" }}
+              >
+                Payment posts on day of cycle
+                <input
+                  type="number"
+                  inputMode="numeric"
+                  min={1}
+                  max={31}
+                  step="1"
+                  placeholder="Last day"
+                  value={paymentDay}
+                  onChange={(e) => handlePaymentDayChange(e.target.value)}
+                  style={{
+                    borderRadius: "8px",
+                    border: "1px solid #374151",
+                    background: "#020617",
+                    padding: "8px 10px",
+                    color: "#f9fafb",
+                    fontSize: "13px",
+                    width: "120px",
+                  }}
+                />
+              </label>
+            )}
+
+            {debts.some((d) => d.taxDeductible) && (
+              <label
+                style={{ display: "flex", flexDirection: "column", gap: "4px" }}
+              >
+                Marginal tax rate (%)
+                <input
+                  type="number"
+                  inputMode="decimal"
+                  min={0}
+                  max={100}
+                  step="0.1"
+                  placeholder="e.g. 22"
+                  value={marginalTaxRate}
+                  onChange={(e) => handleMarginalTaxRateChange(e.target.value)}
+                  style={{
+                    borderRadius: "8px",
+                    border: "1px solid #374151",
+                    background: "#020617",
+                    padding: "8px 10px",
+                    color: "#f9fafb",
+                    fontSize: "13px",
+                    width: "120px",
+                  }}
+                />
+              </label>
+            )}
+          </div>
+
           {minPayWarning && (
             <div
               style={{
@@ -1033,7 +1962,7 @@ export default function Home() {
             >
               <span>“What if I add extra each month?”</span>
               <span style={{ color: "#bbf7d0" }}>
-                +${extraPerMonth.toFixed(0)}/mo
+                +{formatCurrency(extraPerMonth, money)}/mo
               </span>
             </div>
             <input
@@ -1057,6 +1986,12 @@ export default function Home() {
             </div>
           </div>
 
+          <LumpSumEditor
+            lumpSums={lumpSums}
+            debts={debts}
+            onChange={handleLumpSumsChange}
+          />
+
           <button
             type="button"
             onClick={handleGeneratePlan}
@@ -1122,6 +2057,32 @@ export default function Home() {
               {formattedSummary()}
             </p>
 
+            {result.savingsVsAvalanche != null && (
+              <p
+                style={{
+                  fontSize: "13px",
+                  color: "#d1d5db",
+                  marginBottom: "12px",
+                }}
+              >
+                {result.savingsVsAvalanche >= 0.01 ? (
+                  <>
+                    🧙‍♂️ The Wizard’s optimizer beats plain highest-APR-first
+                    (The Rebel) by{" "}
+                    <strong>
+                      {formatCurrency(result.savingsVsAvalanche, money)}
+                    </strong>{" "}
+                    in interest and fees.
+                  </>
+                ) : (
+                  <>
+                    🧙‍♂️ For these cards highest-APR-first is already the
+                    cheapest order, so the Wizard matches it.
+                  </>
+                )}
+              </p>
+            )}
+
             {/* AI Recommendation Card */}
             {aiRec && (
               <div
@@ -1133,6 +2094,28 @@ export default function Home() {
               </div>
             )}
 
+            {/* Every strategy + the minimums-only baseline side by side */}
+            {savedDebts && savedDebts.length > 0 && lastBudgetUsed != null && (
+              <StrategyComparisonPanel
+                debts={savedDebts}
+                monthlyBudget={lastBudgetUsed}
+                options={savedOptions}
+                winner={state.comparisonWinner}
+                onPickWinner={handleComparisonWinnerChange}
+              />
+            )}
+
+            {/* Month-by-month diff vs another strategy or the what-if */}
+            {savedDebts && savedDebts.length > 0 && lastBudgetUsed != null && (
+              <PlanDiffPanel
+                debts={savedDebts}
+                monthlyBudget={lastBudgetUsed}
+                plan={result}
+                options={savedOptions}
+                scenarios={diffScenarios}
+              />
+            )}
+
             {/* Interest/time comparison vs other strategy */}
             {comparisonSummary && (
               <div
@@ -1154,7 +2137,8 @@ export default function Home() {
                     </strong>
                     , your chosen strategy is projected to{" "}
                     <strong>
-                      save {formatCurrency(comparisonSummary.interestDiff)} in
+                      save{" "}
+                      {formatCurrency(comparisonSummary.interestDiff, money)} in
                       interest
                     </strong>{" "}
                     and pay off{" "}
@@ -1172,7 +2156,8 @@ export default function Home() {
                     might save you more. It could reduce interest by{" "}
                     <strong>
                       {formatCurrency(
-                        Math.abs(comparisonSummary.interestDiff)
+                        Math.abs(comparisonSummary.interestDiff),
+                        money
                       )}
                     </strong>{" "}
                     and change payoff time by{" "}
@@ -1185,6 +2170,36 @@ export default function Home() {
               </div>
             )}
 
+            {/* Balance transfer: "as is" vs "after transfer" */}
+            {savedDebts && savedDebts.length > 0 && lastBudgetUsed != null && (
+              <BalanceTransferPanel
+                debts={savedDebts}
+                monthlyBudget={lastBudgetUsed}
+                strategy={result.strategyUsed}
+                options={savedOptions}
+              />
+            )}
+
+            {/* Consolidation loan: current plan vs plan with the loan */}
+            {savedDebts && savedDebts.length > 0 && lastBudgetUsed != null && (
+              <ConsolidationPanel
+                debts={savedDebts}
+                monthlyBudget={lastBudgetUsed}
+                strategy={result.strategyUsed}
+                options={savedOptions}
+              />
+            )}
+
+            {/* Stress test: skipped / short payment vs the normal plan */}
+            {savedDebts && savedDebts.length > 0 && lastBudgetUsed != null && (
+              <MissedPaymentPanel
+                debts={savedDebts}
+                monthlyBudget={lastBudgetUsed}
+                strategy={result.strategyUsed}
+                options={savedOptions}
+              />
+            )}
+
             {/* What-if section */}
             {whatIfSummary && (
               <div
@@ -1200,42 +2215,73 @@ export default function Home() {
               >
                 <p>
                   If you add{" "}
-                  <strong>{formatCurrency(whatIfSummary.extraAmount)}</strong>{" "}
+                  <strong>
+                    {formatCurrency(whatIfSummary.extraAmount, money)}
+                  </strong>{" "}
                   each month, you could be debt free in{" "}
                   <strong>{whatIfSummary.newMonths.toFixed(0)} months</strong>{" "}
                   instead of{" "}
                   <strong>{result.months.toFixed(0)} months</strong>, saving
                   about{" "}
                   <strong>
-                    {formatCurrency(whatIfSummary.interestSaved)}
+                    {formatCurrency(whatIfSummary.interestSaved, money)}
                   </strong>{" "}
                   in interest.
                 </p>
               </div>
             )}
 
-            {/* Ideal budget */}
-            {idealBudget && lastBudgetUsed != null && (
-              <div
-                style={{
-                  marginBottom: "12px",
-                  padding: "10px 12px",
-                  borderRadius: "12px",
-                  background: "#020617",
-                  border: "1px dashed #4b5563",
-                  fontSize: "13px",
-                  color: "#e5e7eb",
-                }}
-              >
-                <p>
-                  To be debt free in about <strong>3 years</strong>, you&apos;d
-                  need roughly{" "}
-                  <strong>{formatCurrency(idealBudget)}</strong> per month.
-                  You&apos;re currently modeling{" "}
-                  <strong>{formatCurrency(lastBudgetUsed ?? 0)}</strong> per
-                  month.
-                </p>
-              </div>
+            {/* Invest the extra vs pay down */}
+            {whatIfSummary && savedDebts && lastBudgetUsed != null && (
+              <InvestVsPayDownPanel
+                debts={savedDebts}
+                monthlyBudget={lastBudgetUsed}
+                extraPerMonth={extraPerMonth}
+                strategy={result.strategyUsed}
+                options={savedOptions}
+              />
+            )}
+
+            {/* Budget goal solver */}
+            {savedDebts && savedDebts.length > 0 && lastBudgetUsed != null && (
+              <GoalPanel
+                debts={savedDebts}
+                strategy={result.strategyUsed}
+                currentBudget={lastBudgetUsed}
+                options={savedOptions}
+              />
+            )}
+
+            {/* Monte Carlo: how sure is the payoff date */}
+            {savedDebts && savedDebts.length > 0 && lastBudgetUsed != null && (
+              <MonteCarloPanel
+                debts={savedDebts}
+                monthlyBudget={lastBudgetUsed}
+                strategy={result.strategyUsed}
+                options={savedOptions}
+                result={monteCarlo}
+                onResult={setMonteCarlo}
+              />
+            )}
+
+            {/* Sensitivity: which APR / budget move matters most */}
+            {savedDebts && savedDebts.length > 0 && lastBudgetUsed != null && (
+              <SensitivityPanel
+                debts={savedDebts}
+                monthlyBudget={lastBudgetUsed}
+                strategy={result.strategyUsed}
+                options={savedOptions}
+              />
+            )}
+
+            {/* Credit utilization by month (cards with a limit only) */}
+            {savedDebts && savedDebts.length > 0 && lastBudgetUsed != null && (
+              <UtilizationPanel
+                debts={savedDebts}
+                monthlyBudget={lastBudgetUsed}
+                plan={result}
+                options={savedOptions}
+              />
             )}
 
             {/* Balance over time chart */}
@@ -1255,9 +2301,47 @@ export default function Home() {
               >
                 Balance over time
               </h3>
-              <BalanceChart schedule={activeSchedule} />
+              <BalanceChart
+                schedule={activeSchedule}
+                fan={!whatIfPlan && monteCarlo ? monteCarlo.fan : undefined}
+              />
             </div>
 
+            {activePlan && activePayoffDates.length > 0 && (
+              <div
+                style={{
+                  marginBottom: "16px",
+                  padding: "10px 12px",
+                  borderRadius: "12px",
+                  background: "#020617",
+                  border: "1px solid #1f2937",
+                  fontSize: "13px",
+                  color: "#d1d5db",
+                }}
+              >
+                <p
+                  style={{
+                    fontWeight: 600,
+                    marginBottom: "6px",
+                    color: "#e5e7eb",
+                  }}
+                >
+                  📅 Payoff dates by card
+                </p>
+                <ol style={{ margin: 0, paddingLeft: "18px" }}>
+                  {activePayoffDates.map((p) => (
+                    <li key={p.debtId} style={{ marginBottom: "2px" }}>
+                      <strong>{p.name}</strong> — paid off{" "}
+                      {formatPlanDate(p.date, false, money.locale)}{" "}
+                      <span style={{ color: "#6b7280" }}>
+                        (month {p.month})
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+
             <button
               type="button"
               onClick={() => setShowSchedule((s) => !s)}
@@ -1289,7 +2373,7 @@ export default function Home() {
                     width: "100%",
                     borderCollapse: "collapse",
                     fontSize: "12px",
-                    minWidth: "480px",
+                    minWidth: "640px",
                   }}
                 >
                   <thead>
@@ -1312,6 +2396,17 @@ export default function Home() {
                       >
                         Ending balance
                       </th>
+                      {savedOptions.emergencyFund && (
+                        <th
+                          style={{
+                            textAlign: "left",
+                            padding: "6px",
+                            borderBottom: "1px solid #1f2937",
+                          }}
+                        >
+                          Emergency fund
+                        </th>
+                      )}
                       <th
                         style={{
                           textAlign: "left",
@@ -1330,6 +2425,15 @@ export default function Home() {
                       >
                         Principal paid
                       </th>
+                      <th
+                        style={{
+                          textAlign: "left",
+                          padding: "6px",
+                          borderBottom: "1px solid #1f2937",
+                        }}
+                      >
+                        Paid per card
+                      </th>
                     </tr>
                   </thead>
                   <tbody>
@@ -1341,15 +2445,88 @@ export default function Home() {
                             borderBottom: "1px solid #111827",
                           }}
                         >
-                          {row.month}
+                          {formatPlanDate(row.date, true, money.locale)}
+                          <span
+                            style={{
+                              display: "block",
+                              fontSize: "10px",
+                              color: "#6b7280",
+                            }}
+                          >
+                            Month {row.month}
+                          </span>
+                          {row.lumpSum > 0 && (
+                            <span
+                              title={`One-time payment of ${formatCurrency(
+                                row.lumpSum,
+                                money
+                              )}`}
+                              style={{ marginLeft: "4px", color: "#38bdf8" }}
+                            >
+                              💰 +{formatCurrency(row.lumpSum, money)}
+                            </span>
+                          )}
+                        </td>
+                        <td
+                          style={{
+                            padding: "6px",
+                            borderBottom: "1px solid #111827",
+                          }}
+                        >
+                          {formatCurrency(row.totalBalanceEnd, money)}
+                          {row.newCharges > 0 && (
+                            <span
+                              style={{
+                                display: "block",
+                                fontSize: "10px",
+                                color: "#6b7280",
+                              }}
+                            >
+                              after {formatCurrency(row.newCharges, money)} new
+                              charges
+                            </span>
+                          )}
                         </td>
+                        {savedOptions.emergencyFund && (
+                          <td
+                            style={{
+                              padding: "6px",
+                              borderBottom: "1px solid #111827",
+                            }}
+                          >
+                            {formatCurrency(row.fundBalanceEnd, money)}
+                            {row.fundContribution > 0 && (
+                              <span
+                                style={{
+                                  display: "block",
+                                  fontSize: "10px",
+                                  color: "#6b7280",
+                                }}
+                              >
+                                +{formatCurrency(row.fundContribution, money)}{" "}
+                                set aside
+                              </span>
+                            )}
+                            {row.fundDraw > 0 && (
+                              <span
+                                style={{
+                                  display: "block",
+                                  fontSize: "10px",
+                                  color: "#f87171",
+                                }}
+                              >
+                                −{formatCurrency(row.fundDraw, money)} drawn
+                              </span>
+                            )}
+                          </td>
+                        )}
                         <td
                           style={{
                             padding: "6px",
                             borderBottom: "1px solid #111827",
                           }}
                         >
-                          {formatCurrency(row.totalBalanceEnd)}
+                          {formatCurrency(row.interestPaid, money)}
                         </td>
                         <td
                           style={{
@@ -1357,15 +2534,22 @@ export default function Home() {
                             borderBottom: "1px solid #111827",
                           }}
                         >
-                          {formatCurrency(row.interestPaid)}
+                          {formatCurrency(row.principalPaid, money)}
                         </td>
                         <td
                           style={{
                             padding: "6px",
                             borderBottom: "1px solid #111827",
+                            color: "#9ca3af",
                           }}
                         >
-                          {formatCurrency(row.principalPaid)}
+                          {row.payments
+                            .filter((p) => p.totalPayment > 0.005)
+                            .map(
+                              (p) =>
+                                `${p.name}: ${formatCurrency(p.totalPayment, money)}`
+                            )
+                            .join(" · ")}
                         </td>
                       </tr>
                     ))}
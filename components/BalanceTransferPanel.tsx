@@ -0,0 +1,261 @@
+"use client";
+
+import { useMemo, useState } from "react";
+
+import {
+  type Debt,
+  type PlanOptions,
+  type Strategy,
+  currencySymbol,
+  formatCurrency,
+} from "@/lib/debtPlan";
+import { simulateBalanceTransfer } from "@/lib/balanceTransfer";
+import { useMoneyFormat } from "@/lib/debtStore";
+import { parseNum } from "@/lib/numbers";
+import { fullWidthInputStyle, labelStyle } from "@/components/formStyles";
+
+type BalanceTransferPanelProps = {
+  debts: Debt[];
+  monthlyBudget: number;
+  strategy: Strategy;
+  options?: PlanOptions;
+};
+
+export default function BalanceTransferPanel({
+  debts,
+  monthlyBudget,
+  strategy,
+  options,
+}: BalanceTransferPanelProps) {
+  const money = useMoneyFormat();
+
+  // default to moving the highest-APR card
+  const defaultSourceId = useMemo(() => {
+    const sorted = [...debts].sort(
+      (a, b) => parseNum(b.apr) - parseNum(a.apr)
+    );
+    return sorted[0]?.id ?? null;
+  }, [debts]);
+
+  const [fromDebtId, setFromDebtId] = useState<number | null>(null);
+  const [feePct, setFeePct] = useState("3");
+  const [promoApr, setPromoApr] = useState("0");
+  const [promoMonths, setPromoMonths] = useState("15");
+  const [postPromoApr, setPostPromoApr] = useState("24.99");
+  const [creditLimit, setCreditLimit] = useState("5000");
+  const [minPayment, setMinPayment] = useState("35");
+
+  const sourceId =
+    fromDebtId != null && debts.some((d) => d.id === fromDebtId)
+      ? fromDebtId
+      : defaultSourceId;
+
+  const scenario = useMemo(() => {
+    if (sourceId == null) return null;
+    return simulateBalanceTransfer(
+      debts,
+      monthlyBudget,
+      strategy,
+      {
+        fromDebtId: sourceId,
+        transferFeePct: parseNum(feePct),
+        promoApr: parseNum(promoApr),
+        promoMonths: parseNum(promoMonths),
+        postPromoApr: parseNum(postPromoApr),
+        creditLimit: parseNum(creditLimit),
+        minPayment: parseNum(minPayment),
+      },
+      options
+    );
+  }, [
+    debts,
+    monthlyBudget,
+    strategy,
+    options,
+    sourceId,
+    feePct,
+    promoApr,
+    promoMonths,
+    postPromoApr,
+    creditLimit,
+    minPayment,
+  ]);
+
+  if (!debts.length) return null;
+
+  return (
+    <div
+      style={{
+        marginBottom: "12px",
+        padding: "10px 12px",
+        borderRadius: "12px",
+        background: "#020617",
+        border: "1px solid #1f2937",
+        fontSize: "13px",
+        color: "#d1d5db",
+      }}
+    >
+      <p style={{ fontWeight: 600, marginBottom: "8px", color: "#e5e7eb" }}>
+        💳 Balance transfer simulator
+      </p>
+
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: "repeat(auto-fit, minmax(130px, 1fr))",
+          gap: "8px",
+          marginBottom: "10px",
+        }}
+      >
+        <label style={labelStyle}>
+          Move balance from
+          <select
+            value={sourceId ?? ""}
+            onChange={(e) => setFromDebtId(Number(e.target.value))}
+            style={fullWidthInputStyle}
+          >
+            {debts.map((d) => (
+              <option key={d.id} value={d.id}>
+                {d.name || `Card ${d.id}`}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label style={labelStyle}>
+          Transfer fee (%)
+          <input
+            type="number"
+            inputMode="decimal"
+            min={0}
+            step="0.1"
+            value={feePct}
+            onChange={(e) => setFeePct(e.target.value)}
+            style={fullWidthInputStyle}
+          />
+        </label>
+        <label style={labelStyle}>
+          Promo APR (%)
+          <input
+            type="number"
+            inputMode="decimal"
+            min={0}
+            step="0.01"
+            value={promoApr}
+            onChange={(e) => setPromoApr(e.target.value)}
+            style={fullWidthInputStyle}
+          />
+        </label>
+        <label style={labelStyle}>
+          Promo length (months)
+          <input
+            type="number"
+            inputMode="numeric"
+            min={0}
+            step="1"
+            value={promoMonths}
+            onChange={(e) => setPromoMonths(e.target.value)}
+            style={fullWidthInputStyle}
+          />
+        </label>
+        <label style={labelStyle}>
+          APR after promo (%)
+          <input
+            type="number"
+            inputMode="decimal"
+            min={0}
+            step="0.01"
+            value={postPromoApr}
+            onChange={(e) => setPostPromoApr(e.target.value)}
+            style={fullWidthInputStyle}
+          />
+        </label>
+        <label style={labelStyle}>
+          Credit limit ({currencySymbol(money)})
+          <input
+            type="number"
+            inputMode="decimal"
+            min={0}
+            value={creditLimit}
+            onChange={(e) => setCreditLimit(e.target.value)}
+            style={fullWidthInputStyle}
+          />
+        </label>
+        <label style={labelStyle}>
+          New card min payment ({currencySymbol(money)})
+          <input
+            type="number"
+            inputMode="decimal"
+            min={0}
+            value={minPayment}
+            onChange={(e) => setMinPayment(e.target.value)}
+            style={fullWidthInputStyle}
+          />
+        </label>
+      </div>
+
+      {scenario && "error" in scenario && (
+        <p style={{ color: "#fca5a5" }}>{scenario.error}</p>
+      )}
+
+      {scenario && !("error" in scenario) && (
+        <>
+          <p style={{ marginBottom: "6px" }}>
+            Moving{" "}
+            <strong>{formatCurrency(scenario.amountTransferred, money)}</strong>{" "}
+            costs a{" "}
+            <strong>{formatCurrency(scenario.transferFee, money)}</strong> fee
+            up front.
+          </p>
+          <table style={{ width: "100%", borderCollapse: "collapse" }}>
+            <thead>
+              <tr style={{ color: "#9ca3af", fontSize: "11px" }}>
+                <th style={{ textAlign: "left", padding: "4px 0" }} />
+                <th style={{ textAlign: "right", padding: "4px 0" }}>As is</th>
+                <th style={{ textAlign: "right", padding: "4px 0" }}>
+                  After transfer
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                <td style={{ padding: "4px 0" }}>Months to debt free</td>
+                <td style={{ textAlign: "right" }}>{scenario.asIs.months}</td>
+                <td style={{ textAlign: "right" }}>
+                  {scenario.afterTransfer.months}
+                </td>
+              </tr>
+              <tr>
+                <td style={{ padding: "4px 0" }}>Interest + fees</td>
+                <td style={{ textAlign: "right" }}>
+                  {formatCurrency(scenario.asIsCost, money)}
+                </td>
+                <td style={{ textAlign: "right" }}>
+                  {formatCurrency(scenario.afterTransferCost, money)}
+                </td>
+              </tr>
+            </tbody>
+          </table>
+          <p style={{ marginTop: "6px" }}>
+            {scenario.costDiff > 0 ? "✅" : "⚠️"} The transfer would{" "}
+            <strong>
+              {scenario.costDiff > 0 ? "save" : "cost"}{" "}
+              {formatCurrency(Math.abs(scenario.costDiff), money)}
+            </strong>{" "}
+            overall
+            {scenario.monthsDiff !== 0 && (
+              <>
+                {" "}
+                and finish{" "}
+                <strong>
+                  {Math.abs(scenario.monthsDiff)} months{" "}
+                  {scenario.monthsDiff > 0 ? "sooner" : "later"}
+                </strong>
+              </>
+            )}
+            .
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+"use client";
+
+import { type BudgetChange, currencySymbol } from "@/lib/debtPlan";
+import { useMoneyFormat } from "@/lib/debtStore";
+import { inputStyle } from "@/components/formStyles";
+
+type BudgetTimelineEditorProps = {
+  changes: BudgetChange[];
+  onChange: (changes: BudgetChange[]) => void;
+};
+
+export default function BudgetTimelineEditor({
+  changes,
+  onChange,
+}: BudgetTimelineEditorProps) {
+  const money = useMoneyFormat();
+
+  const update = (index: number, patch: Partial<BudgetChange>) => {
+    onChange(changes.map((c, i) => (i === index ? { ...c, ...patch } : c)));
+  };
+
+  const handleAdd = () => {
+    const lastMonth = changes.reduce((max, c) => Math.max(max, c.fromMonth), 0);
+    onChange([
+      ...changes,
+      { fromMonth: lastMonth + 6, amount: 0, label: "" },
+    ]);
+  };
+
+  const handleRemove = (index: number) => {
+    onChange(changes.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div style={{ marginBottom: "10px" }}>
+      <div
+        style={{
+          fontSize: "12px",
+          color: "#9ca3af",
+          marginBottom: "6px",
+        }}
+      >
+        Budget changes later on? (a raise, a tight holiday season, daycare
+        ending…)
+      </div>
+
+      {changes.length > 0 && (
+        <div
+          style={{
+            display: "grid",
+            gridTemplateColumns: "0.8fr 1fr 1.4fr 40px",
+            gap: "6px",
+            fontSize: "11px",
+            color: "#6b7280",
+            marginBottom: "4px",
+            maxWidth: "520px",
+          }}
+        >
+          <span>From month #</span>
+          <span>New budget ({currencySymbol(money)})</span>
+          <span>Why (optional)</span>
+          <span />
+        </div>
+      )}
+
+      {changes.map((change, index) => (
+        <div
+          key={index}
+          style={{
+            display: "grid",
+            gridTemplateColumns: "0.8fr 1fr 1.4fr 40px",
+            gap: "6px",
+            marginBottom: "6px",
+            maxWidth: "520px",
+          }}
+        >
+          <input
+            type="number"
+            inputMode="numeric"
+            min={1}
+            step="1"
+            value={change.fromMonth}
+            onChange={(e) =>
+              update(index, {
+                fromMonth: Math.max(
+                  1,
+                  parseInt(e.target.value || "1", 10) || 1
+                ),
+              })
+            }
+            style={inputStyle}
+          />
+          <input
+            type="number"
+            inputMode="decimal"
+            min={0}
+            value={change.amount || ""}
+            placeholder="e.g. 650"
+            onChange={(e) =>
+              update(index, { amount: parseFloat(e.target.value || "0") || 0 })
+            }
+            style={inputStyle}
+          />
+          <input
+            type="text"
+            value={change.label ?? ""}
+            placeholder="e.g. Raise"
+            onChange={(e) => update(index, { label: e.target.value })}
+            style={inputStyle}
+          />
+          <button
+            type="button"
+            onClick={() => handleRemove(index)}
+            style={{
+              borderRadius: "8px",
+              border: "none",
+              background: "#7f1d1d",
+              color: "#fee2e2",
+              fontSize: "12px",
+              cursor: "pointer",
+            }}
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={handleAdd}
+        style={{
+          borderRadius: "999px",
+          padding: "6px 12px",
+          border: "1px dashed #38bdf8",
+          background: "transparent",
+          color: "#e0f2fe",
+          fontSize: "12px",
+          cursor: "pointer",
+        }}
+      >
+        + Add budget change
+      </button>
+    </div>
+  );
+}
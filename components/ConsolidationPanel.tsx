@@ -0,0 +1,269 @@
+"use client";
+
+import { useMemo, useState } from "react";
+
+import {
+  type Debt,
+  type PlanOptions,
+  type Strategy,
+  currencySymbol,
+  formatCurrency,
+} from "@/lib/debtPlan";
+import { compareConsolidation } from "@/lib/consolidation";
+import { useMoneyFormat } from "@/lib/debtStore";
+import { parseNum } from "@/lib/numbers";
+import { fullWidthInputStyle, labelStyle } from "@/components/formStyles";
+
+type ConsolidationPanelProps = {
+  debts: Debt[];
+  monthlyBudget: number;
+  strategy: Strategy;
+  options?: PlanOptions;
+};
+
+export default function ConsolidationPanel({
+  debts,
+  monthlyBudget,
+  strategy,
+  options,
+}: ConsolidationPanelProps) {
+  const money = useMoneyFormat();
+
+  // null = every card (the usual "pay off everything" loan)
+  const [pickedIds, setPickedIds] = useState<number[] | null>(null);
+  const [amount, setAmount] = useState("");
+  const [apr, setApr] = useState("11.99");
+  const [termMonths, setTermMonths] = useState("36");
+  const [feePct, setFeePct] = useState("5");
+
+  const selectedIds = useMemo(
+    () =>
+      pickedIds == null
+        ? debts.map((d) => d.id)
+        : pickedIds.filter((id) => debts.some((d) => d.id === id)),
+    [pickedIds, debts]
+  );
+
+  // default loan size = what the picked cards owe
+  const pickedBalance = useMemo(
+    () =>
+      debts
+        .filter((d) => selectedIds.includes(d.id))
+        .reduce((sum, d) => sum + parseNum(d.balance), 0),
+    [debts, selectedIds]
+  );
+
+  const loanAmount = amount === "" ? pickedBalance : parseNum(amount);
+
+  const scenario = useMemo(
+    () =>
+      compareConsolidation(
+        debts,
+        monthlyBudget,
+        strategy,
+        {
+          amount: loanAmount,
+          apr: parseNum(apr),
+          termMonths: parseNum(termMonths),
+          originationFeePct: parseNum(feePct),
+          payOffDebtIds: selectedIds,
+        },
+        options
+      ),
+    [
+      debts,
+      monthlyBudget,
+      strategy,
+      options,
+      loanAmount,
+      apr,
+      termMonths,
+      feePct,
+      selectedIds,
+    ]
+  );
+
+  const togglePicked = (id: number) => {
+    setPickedIds(
+      selectedIds.includes(id)
+        ? selectedIds.filter((x) => x !== id)
+        : [...selectedIds, id]
+    );
+  };
+
+  if (!debts.length) return null;
+
+  return (
+    <div
+      style={{
+        marginBottom: "12px",
+        padding: "10px 12px",
+        borderRadius: "12px",
+        background: "#020617",
+        border: "1px solid #1f2937",
+        fontSize: "13px",
+        color: "#d1d5db",
+      }}
+    >
+      <p style={{ fontWeight: 600, marginBottom: "8px", color: "#e5e7eb" }}>
+        🏦 Should I take this consolidation loan?
+      </p>
+
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: "repeat(auto-fit, minmax(130px, 1fr))",
+          gap: "8px",
+          marginBottom: "8px",
+        }}
+      >
+        <label style={labelStyle}>
+          Loan amount ({currencySymbol(money)})
+          <input
+            type="number"
+            inputMode="decimal"
+            min={0}
+            placeholder={pickedBalance.toFixed(0)}
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            style={fullWidthInputStyle}
+          />
+        </label>
+        <label style={labelStyle}>
+          Loan APR (%)
+          <input
+            type="number"
+            inputMode="decimal"
+            min={0}
+            step="0.01"
+            value={apr}
+            onChange={(e) => setApr(e.target.value)}
+            style={fullWidthInputStyle}
+          />
+        </label>
+        <label style={labelStyle}>
+          Term (months)
+          <input
+            type="number"
+            inputMode="numeric"
+            min={1}
+            step="1"
+            value={termMonths}
+            onChange={(e) => setTermMonths(e.target.value)}
+            style={fullWidthInputStyle}
+          />
+        </label>
+        <label style={labelStyle}>
+          Origination fee (%)
+          <input
+            type="number"
+            inputMode="decimal"
+            min={0}
+            step="0.1"
+            value={feePct}
+            onChange={(e) => setFeePct(e.target.value)}
+            style={fullWidthInputStyle}
+          />
+        </label>
+      </div>
+
+      <div
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          gap: "12px",
+          fontSize: "12px",
+          marginBottom: "10px",
+        }}
+      >
+        <span style={{ color: "#9ca3af" }}>Pays off:</span>
+        {debts.map((d) => (
+          <label
+            key={d.id}
+            style={{ display: "flex", alignItems: "center", gap: "4px" }}
+          >
+            <input
+              type="checkbox"
+              checked={selectedIds.includes(d.id)}
+              onChange={() => togglePicked(d.id)}
+            />
+            {d.name || `Card ${d.id}`}
+          </label>
+        ))}
+      </div>
+
+      {"error" in scenario ? (
+        <p style={{ color: "#fca5a5" }}>{scenario.error}</p>
+      ) : (
+        <>
+          <p style={{ marginBottom: "6px" }}>
+            Loan payment{" "}
+            <strong>{formatCurrency(scenario.loanPayment, money)}/mo</strong>.
+            After the{" "}
+            <strong>{formatCurrency(scenario.originationFee, money)}</strong>{" "}
+            fee, <strong>{formatCurrency(scenario.amountApplied, money)}</strong>{" "}
+            reaches your cards.
+            {scenario.loanAmount < loanAmount && (
+              <>
+                {" "}
+                Only {formatCurrency(scenario.loanAmount, money)} of the loan
+                is needed to clear the cards you picked, so that&apos;s all
+                this borrows.
+              </>
+            )}
+          </p>
+          <table style={{ width: "100%", borderCollapse: "collapse" }}>
+            <thead>
+              <tr style={{ color: "#9ca3af", fontSize: "11px" }}>
+                <th style={{ textAlign: "left", padding: "4px 0" }} />
+                <th style={{ textAlign: "right", padding: "4px 0" }}>
+                  Current plan
+                </th>
+                <th style={{ textAlign: "right", padding: "4px 0" }}>
+                  With loan
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                <td style={{ padding: "4px 0" }}>Months to debt free</td>
+                <td style={{ textAlign: "right" }}>{scenario.current.months}</td>
+                <td style={{ textAlign: "right" }}>
+                  {scenario.consolidated.months}
+                </td>
+              </tr>
+              <tr>
+                <td style={{ padding: "4px 0" }}>Interest + fees</td>
+                <td style={{ textAlign: "right" }}>
+                  {formatCurrency(scenario.currentCost, money)}
+                </td>
+                <td style={{ textAlign: "right" }}>
+                  {formatCurrency(scenario.consolidatedCost, money)}
+                </td>
+              </tr>
+            </tbody>
+          </table>
+          <p style={{ marginTop: "6px" }}>
+            {scenario.costDiff > 0 ? "✅" : "⚠️"} Taking the loan would{" "}
+            <strong>
+              {scenario.costDiff > 0 ? "save" : "cost"}{" "}
+              {formatCurrency(Math.abs(scenario.costDiff), money)}
+            </strong>{" "}
+            overall
+            {scenario.monthsDiff !== 0 && (
+              <>
+                {" "}
+                and finish{" "}
+                <strong>
+                  {Math.abs(scenario.monthsDiff)} months{" "}
+                  {scenario.monthsDiff > 0 ? "sooner" : "later"}
+                </strong>
+              </>
+            )}
+            .
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
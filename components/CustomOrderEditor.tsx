@@ -0,0 +1,131 @@
+"use client";
+
+import { useMemo, useState } from "react";
+
+import { type Debt } from "@/lib/debtPlan";
+
+type CustomOrderEditorProps = {
+  debts: Debt[];
+  order: number[]; // debt ids, first = paid first
+  onChange: (order: number[]) => void;
+};
+
+const rowButtonStyle: React.CSSProperties = {
+  borderRadius: "6px",
+  border: "1px solid #374151",
+  background: "transparent",
+  color: "#e5e7eb",
+  fontSize: "11px",
+  padding: "2px 6px",
+  cursor: "pointer",
+};
+
+export default function CustomOrderEditor({
+  debts,
+  order,
+  onChange,
+}: CustomOrderEditorProps) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  // saved order first, then any cards it doesn't mention by APR (same
+  // fallback the engine uses)
+  const ordered = useMemo(() => {
+    const listed = order
+      .map((id) => debts.find((d) => d.id === id))
+      .filter((d): d is Debt => d != null);
+    const rest = debts
+      .filter((d) => !order.includes(d.id))
+      .sort(
+        (a, b) => (parseFloat(b.apr) || 0) - (parseFloat(a.apr) || 0)
+      );
+    return [...listed, ...rest];
+  }, [debts, order]);
+
+  const move = (from: number, to: number) => {
+    if (from === to || to < 0 || to >= ordered.length) return;
+    const ids = ordered.map((d) => d.id);
+    const [moved] = ids.splice(from, 1);
+    ids.splice(to, 0, moved);
+    onChange(ids);
+  };
+
+  if (!debts.length) return null;
+
+  return (
+    <div
+      style={{
+        marginBottom: "12px",
+        padding: "10px 12px",
+        borderRadius: "12px",
+        background: "#020617",
+        border: "1px solid #1f2937",
+        fontSize: "13px",
+        color: "#d1d5db",
+        maxWidth: "520px",
+      }}
+    >
+      <p style={{ fontSize: "12px", color: "#9ca3af", marginBottom: "8px" }}>
+        Drag cards into the order you want them paid off, or pin one to go
+        first. Extra money always goes to the top card still owing.
+      </p>
+
+      {ordered.map((d, index) => (
+        <div
+          key={d.id}
+          draggable
+          onDragStart={() => setDragIndex(index)}
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={() => {
+            if (dragIndex != null) move(dragIndex, index);
+            setDragIndex(null);
+          }}
+          onDragEnd={() => setDragIndex(null)}
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: "8px",
+            padding: "6px 8px",
+            marginBottom: "4px",
+            borderRadius: "8px",
+            border: "1px solid #1f2937",
+            background: dragIndex === index ? "#0f172a" : "transparent",
+            cursor: "grab",
+          }}
+        >
+          <span style={{ color: "#6b7280" }}>⋮⋮</span>
+          <span style={{ width: "18px", color: "#38bdf8" }}>{index + 1}.</span>
+          <span style={{ flex: 1 }}>
+            {d.name || `Card ${d.id}`}{" "}
+            <span style={{ color: "#6b7280", fontSize: "11px" }}>
+              ({d.apr || "0"}% APR)
+            </span>
+          </span>
+          <button
+            type="button"
+            onClick={() => move(index, index - 1)}
+            disabled={index === 0}
+            style={rowButtonStyle}
+          >
+            ↑
+          </button>
+          <button
+            type="button"
+            onClick={() => move(index, index + 1)}
+            disabled={index === ordered.length - 1}
+            style={rowButtonStyle}
+          >
+            ↓
+          </button>
+          <button
+            type="button"
+            onClick={() => move(index, 0)}
+            disabled={index === 0}
+            style={rowButtonStyle}
+          >
+            📌 Pin first
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,253 @@
+"use client";
+
+import {
+  type EmergencyFundMode,
+  type EmergencyFundPlan,
+  type FundDraw,
+  currencySymbol,
+} from "@/lib/debtPlan";
+import { useMoneyFormat } from "@/lib/debtStore";
+import { parseNum } from "@/lib/numbers";
+import { inputStyle, labelStyle } from "@/components/formStyles";
+
+type EmergencyFundEditorProps = {
+  fund: EmergencyFundPlan | null;
+  onChange: (fund: EmergencyFundPlan | null) => void;
+};
+
+// dimmer than the panels' captions, like the other editors' headers
+const fieldLabelStyle: React.CSSProperties = {
+  ...labelStyle,
+  color: "#6b7280",
+};
+
+const DEFAULT_FUND: EmergencyFundPlan = {
+  mode: "fillFirst",
+  target: 1000,
+  startingBalance: 0,
+  monthlyContribution: 200,
+  draws: [],
+};
+
+function parseAmount(value: string): number {
+  return Math.max(0, parseNum(value));
+}
+
+export default function EmergencyFundEditor({
+  fund,
+  onChange,
+}: EmergencyFundEditorProps) {
+  const money = useMoneyFormat();
+
+  const draws = fund?.draws ?? [];
+
+  const update = (patch: Partial<EmergencyFundPlan>) => {
+    if (!fund) return;
+    onChange({ ...fund, ...patch });
+  };
+
+  const updateDraw = (index: number, patch: Partial<FundDraw>) => {
+    update({
+      draws: draws.map((w, i) => (i === index ? { ...w, ...patch } : w)),
+    });
+  };
+
+  const handleAddDraw = () => {
+    update({
+      draws: [...draws, { month: 6, amount: 0, label: "" }],
+    });
+  };
+
+  const handleRemoveDraw = (index: number) => {
+    update({ draws: draws.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div style={{ marginBottom: "10px" }}>
+      <label
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: "6px",
+          fontSize: "12px",
+          color: "#9ca3af",
+          marginBottom: "6px",
+        }}
+      >
+        <input
+          type="checkbox"
+          checked={fund != null}
+          onChange={(e) => onChange(e.target.checked ? DEFAULT_FUND : null)}
+        />
+        Build an emergency fund out of the budget first
+      </label>
+
+      {fund && (
+        <>
+          <div
+            style={{
+              display: "grid",
+              gridTemplateColumns: "repeat(auto-fit, minmax(120px, 1fr))",
+              gap: "6px",
+              marginBottom: "6px",
+              maxWidth: "620px",
+            }}
+          >
+            <label style={fieldLabelStyle}>
+              Target ({currencySymbol(money)})
+              <input
+                type="number"
+                inputMode="decimal"
+                min={0}
+                value={fund.target || ""}
+                placeholder="e.g. 1000"
+                onChange={(e) =>
+                  update({ target: parseAmount(e.target.value) })
+                }
+                style={inputStyle}
+              />
+            </label>
+            <label style={fieldLabelStyle}>
+              Saved so far ({currencySymbol(money)})
+              <input
+                type="number"
+                inputMode="decimal"
+                min={0}
+                value={fund.startingBalance || ""}
+                placeholder="0"
+                onChange={(e) =>
+                  update({ startingBalance: parseAmount(e.target.value) })
+                }
+                style={inputStyle}
+              />
+            </label>
+            <label style={fieldLabelStyle}>
+              Set aside per month ({currencySymbol(money)})
+              <input
+                type="number"
+                inputMode="decimal"
+                min={0}
+                value={fund.monthlyContribution || ""}
+                placeholder="e.g. 200"
+                onChange={(e) =>
+                  update({ monthlyContribution: parseAmount(e.target.value) })
+                }
+                style={inputStyle}
+              />
+            </label>
+            <label style={fieldLabelStyle}>
+              After a draw
+              <select
+                value={fund.mode}
+                onChange={(e) =>
+                  update({ mode: e.target.value as EmergencyFundMode })
+                }
+                style={inputStyle}
+              >
+                <option value="fillFirst">Keep paying debt</option>
+                <option value="refill">Refill the fund first</option>
+              </select>
+            </label>
+          </div>
+
+          {draws.length > 0 && (
+            <div
+              style={{
+                display: "grid",
+                gridTemplateColumns: "0.8fr 1fr 1.4fr 40px",
+                gap: "6px",
+                fontSize: "11px",
+                color: "#6b7280",
+                marginBottom: "4px",
+                maxWidth: "520px",
+              }}
+            >
+              <span>Month #</span>
+              <span>Taken out ({currencySymbol(money)})</span>
+              <span>What for (optional)</span>
+              <span />
+            </div>
+          )}
+
+          {draws.map((draw, index) => (
+            <div
+              key={index}
+              style={{
+                display: "grid",
+                gridTemplateColumns: "0.8fr 1fr 1.4fr 40px",
+                gap: "6px",
+                marginBottom: "6px",
+                maxWidth: "520px",
+              }}
+            >
+              <input
+                type="number"
+                inputMode="numeric"
+                min={1}
+                step="1"
+                value={draw.month}
+                onChange={(e) =>
+                  updateDraw(index, {
+                    month: Math.max(
+                      1,
+                      parseInt(e.target.value || "1", 10) || 1
+                    ),
+                  })
+                }
+                style={inputStyle}
+              />
+              <input
+                type="number"
+                inputMode="decimal"
+                min={0}
+                value={draw.amount || ""}
+                placeholder="e.g. 600"
+                onChange={(e) =>
+                  updateDraw(index, { amount: parseAmount(e.target.value) })
+                }
+                style={inputStyle}
+              />
+              <input
+                type="text"
+                value={draw.label ?? ""}
+                placeholder="e.g. Car repair"
+                onChange={(e) => updateDraw(index, { label: e.target.value })}
+                style={inputStyle}
+              />
+              <button
+                type="button"
+                onClick={() => handleRemoveDraw(index)}
+                style={{
+                  borderRadius: "8px",
+                  border: "none",
+                  background: "#7f1d1d",
+                  color: "#fee2e2",
+                  fontSize: "12px",
+                  cursor: "pointer",
+                }}
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+
+          <button
+            type="button"
+            onClick={handleAddDraw}
+            style={{
+              borderRadius: "999px",
+              padding: "6px 12px",
+              border: "1px dashed #38bdf8",
+              background: "transparent",
+              color: "#e0f2fe",
+              fontSize: "12px",
+              cursor: "pointer",
+            }}
+          >
+            + Add an emergency
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
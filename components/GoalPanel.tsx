@@ -0,0 +1,266 @@
+"use client";
+
+import { useMemo, useState } from "react";
+
+import {
+  type Debt,
+  type PlanOptions,
+  type Strategy,
+  currencySymbol,
+  formatCurrency,
+  getScenarioStrategy,
+  runPlanSafe,
+} from "@/lib/debtPlan";
+import {
+  type BudgetGoal,
+  type BudgetSolution,
+  solveBudget,
+} from "@/lib/budgetSolver";
+import { useMoneyFormat } from "@/lib/debtStore";
+import { parseNum } from "@/lib/numbers";
+import { fullWidthInputStyle, labelStyle } from "@/components/formStyles";
+
+type GoalPanelProps = {
+  debts: Debt[];
+  strategy: Strategy;
+  currentBudget: number;
+  options?: PlanOptions;
+};
+
+type GoalKind = BudgetGoal["kind"];
+
+// the last answer and what it was solved for; editing the goal or
+// recalculating the plan hides it until the next solve
+type Solved = {
+  goal: BudgetGoal;
+  debts: Debt[];
+  strategy: Strategy;
+  options?: PlanOptions;
+  solution: BudgetSolution | { error: string };
+};
+
+// "YYYY-MM" for <input type="month">, `years` from today
+function monthValueFromNow(years: number): string {
+  const d = new Date();
+  const month = String(d.getMonth() + 1).padStart(2, "0");
+  return `${d.getFullYear() + years}-${month}`;
+}
+
+export default function GoalPanel({
+  debts,
+  strategy,
+  currentBudget,
+  options,
+}: GoalPanelProps) {
+  const money = useMoneyFormat();
+
+  const [kind, setKind] = useState<GoalKind>("debtFreeBy");
+  const [date, setDate] = useState(() => monthValueFromNow(3));
+  const [interestCap, setInterestCap] = useState("1000");
+  const [cardId, setCardId] = useState<number | null>(null);
+  const [cardMonth, setCardMonth] = useState("12");
+  const [solved, setSolved] = useState<Solved | null>(null);
+
+  const targetCardId =
+    cardId != null && debts.some((d) => d.id === cardId)
+      ? cardId
+      : (debts[0]?.id ?? null);
+
+  const goal: BudgetGoal | null = useMemo(() => {
+    if (kind === "debtFreeBy") {
+      const [year, month] = date.split("-").map((v) => parseInt(v, 10));
+      if (!year || !month) return null;
+      return { kind, date: new Date(year, month - 1, 1) };
+    }
+    if (kind === "interestUnder") {
+      return { kind, amount: parseNum(interestCap) };
+    }
+    if (targetCardId == null) return null;
+    return {
+      kind,
+      debtId: targetCardId,
+      month: Math.floor(parseNum(cardMonth)),
+    };
+  }, [kind, date, interestCap, targetCardId, cardMonth]);
+
+  const solution =
+    solved &&
+    solved.goal === goal &&
+    solved.debts === debts &&
+    solved.strategy === strategy &&
+    solved.options === options
+      ? solved.solution
+      : null;
+
+  if (!debts.length) return null;
+
+  // around 30 full plans per answer, so it runs on request rather than on
+  // every keystroke; the Wizard searches its order once, at today's budget
+  const handleSolve = () => {
+    if (!goal) return;
+    const current =
+      strategy === "wizard"
+        ? runPlanSafe(debts, currentBudget, strategy, options)
+        : null;
+    const search = current
+      ? getScenarioStrategy(current, options)
+      : { strategy, options };
+    setSolved({
+      goal,
+      debts,
+      strategy,
+      options,
+      solution: solveBudget(debts, search.strategy, goal, search.options),
+    });
+  };
+
+  return (
+    <div
+      style={{
+        marginBottom: "12px",
+        padding: "10px 12px",
+        borderRadius: "12px",
+        background: "#020617",
+        border: "1px dashed #4b5563",
+        fontSize: "13px",
+        color: "#e5e7eb",
+      }}
+    >
+      <p style={{ fontWeight: 600, marginBottom: "8px" }}>
+        🎯 What budget hits my goal?
+      </p>
+
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: "repeat(auto-fit, minmax(150px, 1fr))",
+          gap: "8px",
+          marginBottom: "10px",
+        }}
+      >
+        <label style={labelStyle}>
+          Goal
+          <select
+            value={kind}
+            onChange={(e) => setKind(e.target.value as GoalKind)}
+            style={fullWidthInputStyle}
+          >
+            <option value="debtFreeBy">Debt free by a date</option>
+            <option value="interestUnder">Total interest under</option>
+            <option value="cardPaidBy">One card paid off by</option>
+          </select>
+        </label>
+
+        {kind === "debtFreeBy" && (
+          <label style={labelStyle}>
+            Debt free by
+            <input
+              type="month"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              style={fullWidthInputStyle}
+            />
+          </label>
+        )}
+
+        {kind === "interestUnder" && (
+          <label style={labelStyle}>
+            Max total interest ({currencySymbol(money)})
+            <input
+              type="number"
+              inputMode="decimal"
+              min={0}
+              value={interestCap}
+              onChange={(e) => setInterestCap(e.target.value)}
+              style={fullWidthInputStyle}
+            />
+          </label>
+        )}
+
+        {kind === "cardPaidBy" && (
+          <>
+            <label style={labelStyle}>
+              Card
+              <select
+                value={targetCardId ?? ""}
+                onChange={(e) => setCardId(Number(e.target.value))}
+                style={fullWidthInputStyle}
+              >
+                {debts.map((d) => (
+                  <option key={d.id} value={d.id}>
+                    {d.name || `Card ${d.id}`}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label style={labelStyle}>
+              Paid off by month #
+              <input
+                type="number"
+                inputMode="numeric"
+                min={1}
+                step="1"
+                value={cardMonth}
+                onChange={(e) => setCardMonth(e.target.value)}
+                style={fullWidthInputStyle}
+              />
+            </label>
+          </>
+        )}
+      </div>
+
+      <button
+        type="button"
+        onClick={handleSolve}
+        disabled={!goal}
+        style={{
+          borderRadius: "999px",
+          padding: "6px 12px",
+          border: "1px solid #38bdf8",
+          background: "transparent",
+          color: "#e0f2fe",
+          fontSize: "12px",
+          cursor: goal ? "pointer" : "default",
+          marginBottom: solution ? "10px" : 0,
+        }}
+      >
+        Find my budget
+      </button>
+
+      {solution && "error" in solution && (
+        <p style={{ color: "#fca5a5" }}>{solution.error}</p>
+      )}
+
+      {solution && !("error" in solution) && (
+        <p>
+          You&apos;d need at least{" "}
+          <strong>{formatCurrency(solution.budget, money)}</strong> per month (
+          {solution.plan.months} months,{" "}
+          {formatCurrency(solution.plan.totalInterest, money)} interest).{" "}
+          {solution.budget <= currentBudget ? (
+            <>
+              ✅ Your current{" "}
+              <strong>{formatCurrency(currentBudget, money)}</strong> already
+              gets you there.
+            </>
+          ) : (
+            <>
+              That&apos;s{" "}
+              <strong>
+                {formatCurrency(solution.budget - currentBudget, money)}
+              </strong>{" "}
+              more than the {formatCurrency(currentBudget, money)} you&apos;re
+              modeling.
+            </>
+          )}
+        </p>
+      )}
+      {solution && !("error" in solution) && strategy === "wizard" && (
+        <p style={{ marginTop: "6px", color: "#6b7280", fontSize: "11px" }}>
+          The Wizard keeps the payoff order of your current plan here instead
+          of searching again at every budget it tries.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+"use client";
+
+import { useMemo, useState } from "react";
+
+import {
+  type Debt,
+  type PlanOptions,
+  type Strategy,
+  formatCurrency,
+  formatPlanDate,
+  getPayoffDate,
+} from "@/lib/debtPlan";
+import { compareInvestVsPayDown } from "@/lib/investVsPayDown";
+import { useMoneyFormat } from "@/lib/debtStore";
+import { parseNum } from "@/lib/numbers";
+import { fullWidthInputStyle, labelStyle } from "@/components/formStyles";
+
+type InvestVsPayDownPanelProps = {
+  debts: Debt[];
+  monthlyBudget: number;
+  extraPerMonth: number;
+  strategy: Strategy;
+  options?: PlanOptions;
+};
+
+export default function InvestVsPayDownPanel({
+  debts,
+  monthlyBudget,
+  extraPerMonth,
+  strategy,
+  options,
+}: InvestVsPayDownPanelProps) {
+  const money = useMoneyFormat();
+
+  const [annualReturn, setAnnualReturn] = useState("7");
+  const [horizonYears, setHorizonYears] = useState("10");
+
+  const scenario = useMemo(
+    () =>
+      compareInvestVsPayDown(
+        debts,
+        monthlyBudget,
+        extraPerMonth,
+        strategy,
+        {
+          annualReturnPct: parseNum(annualReturn),
+          horizonMonths: Math.round(parseNum(horizonYears) * 12),
+        },
+        options
+      ),
+    [
+      debts,
+      monthlyBudget,
+      extraPerMonth,
+      strategy,
+      options,
+      annualReturn,
+      horizonYears,
+    ]
+  );
+
+  if (!debts.length || extraPerMonth <= 0) return null;
+
+  const referenceDate =
+    "error" in scenario ? null : getPayoffDate(scenario.splits[0].plan);
+
+  return (
+    <div
+      style={{
+        marginBottom: "12px",
+        padding: "10px 12px",
+        borderRadius: "12px",
+        background: "#020617",
+        border: "1px solid #1f2937",
+        fontSize: "13px",
+        color: "#d1d5db",
+      }}
+    >
+      <p style={{ fontWeight: 600, marginBottom: "8px", color: "#e5e7eb" }}>
+        📈 Invest the extra or pay down debt?
+      </p>
+
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: "repeat(auto-fit, minmax(130px, 1fr))",
+          gap: "8px",
+          marginBottom: "10px",
+        }}
+      >
+        <label style={labelStyle}>
+          Expected yearly return (%)
+          <input
+            type="number"
+            inputMode="decimal"
+            step="0.1"
+            value={annualReturn}
+            onChange={(e) => setAnnualReturn(e.target.value)}
+            style={fullWidthInputStyle}
+          />
+        </label>
+        <label style={labelStyle}>
+          Compare over (years)
+          <input
+            type="number"
+            inputMode="numeric"
+            min={1}
+            step="1"
+            value={horizonYears}
+            onChange={(e) => setHorizonYears(e.target.value)}
+            style={fullWidthInputStyle}
+          />
+        </label>
+      </div>
+
+      {"error" in scenario ? (
+        <p style={{ color: "#fca5a5" }}>{scenario.error}</p>
+      ) : (
+        <>
+          <p style={{ marginBottom: "6px" }}>
+            Splitting your extra{" "}
+            <strong>{formatCurrency(extraPerMonth, money)}/mo</strong>. Once
+            the debt is gone, everything you were paying toward it gets
+            invested too.
+          </p>
+          <table style={{ width: "100%", borderCollapse: "collapse" }}>
+            <thead>
+              <tr style={{ color: "#9ca3af", fontSize: "11px" }}>
+                <th style={{ textAlign: "left", padding: "4px 0" }}>
+                  Invested
+                </th>
+                <th style={{ textAlign: "right", padding: "4px 0" }}>
+                  Debt free
+                </th>
+                <th style={{ textAlign: "right", padding: "4px 0" }}>
+                  Interest + fees
+                </th>
+                <th style={{ textAlign: "right", padding: "4px 0" }}>
+                  Net worth{" "}
+                  {referenceDate
+                    ? formatPlanDate(referenceDate, true, money.locale)
+                    : `month ${scenario.referenceMonth}`}
+                </th>
+                <th style={{ textAlign: "right", padding: "4px 0" }}>
+                  Net worth in {(scenario.horizonMonths / 12).toFixed(0)} yrs
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {scenario.splits.map((split) => {
+                const payoffDate = getPayoffDate(split.plan);
+                const bestNow = split === scenario.bestAtPayoff;
+                const bestLater = split === scenario.bestAtHorizon;
+                return (
+                  <tr key={split.investShare}>
+                    <td style={{ padding: "4px 0" }}>
+                      {(split.investShare * 100).toFixed(0)}%{" "}
+                      <span style={{ color: "#6b7280", fontSize: "11px" }}>
+                        ({formatCurrency(split.investExtra, money)}/mo)
+                      </span>
+                    </td>
+                    <td style={{ textAlign: "right" }}>
+                      {payoffDate
+                        ? formatPlanDate(payoffDate, true, money.locale)
+                        : "—"}
+                    </td>
+                    <td style={{ textAlign: "right" }}>
+                      {formatCurrency(split.totalInterest, money)}
+                    </td>
+                    <td
+                      style={{
+                        textAlign: "right",
+                        color: bestNow ? "#4ade80" : undefined,
+                      }}
+                    >
+                      {formatCurrency(split.netWorthAtPayoff, money)}
+                    </td>
+                    <td
+                      style={{
+                        textAlign: "right",
+                        color: bestLater ? "#4ade80" : undefined,
+                      }}
+                    >
+                      {formatCurrency(split.netWorthAtHorizon, money)}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <p style={{ marginTop: "6px" }}>
+            {scenario.bestAtHorizon.investShare === 0 ? (
+              <>
+                ✅ At a {parseNum(annualReturn)}% return, putting all of the
+                extra toward debt leaves you best off.
+              </>
+            ) : (
+              <>
+                📈 At a {parseNum(annualReturn)}% return, investing{" "}
+                <strong>
+                  {(scenario.bestAtHorizon.investShare * 100).toFixed(0)}%
+                </strong>{" "}
+                of the extra ends up{" "}
+                <strong>
+                  {formatCurrency(
+                    scenario.bestAtHorizon.netWorthAtHorizon -
+                      scenario.splits[0].netWorthAtHorizon,
+                    money
+                  )}
+                </strong>{" "}
+                ahead of paying debt first after{" "}
+                {(scenario.horizonMonths / 12).toFixed(0)} years.
+              </>
+            )}{" "}
+            Returns aren&apos;t guaranteed; debt interest is.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+"use client";
+
+import {
+  type Debt,
+  type LumpSum,
+  currencySymbol,
+} from "@/lib/debtPlan";
+import { useMoneyFormat } from "@/lib/debtStore";
+import { inputStyle } from "@/components/formStyles";
+
+type LumpSumEditorProps = {
+  lumpSums: LumpSum[];
+  debts: Debt[];
+  onChange: (lumpSums: LumpSum[]) => void;
+};
+
+export default function LumpSumEditor({
+  lumpSums,
+  debts,
+  onChange,
+}: LumpSumEditorProps) {
+  const money = useMoneyFormat();
+
+  const update = (index: number, patch: Partial<LumpSum>) => {
+    onChange(lumpSums.map((l, i) => (i === index ? { ...l, ...patch } : l)));
+  };
+
+  const handleAdd = () => {
+    onChange([
+      ...lumpSums,
+      { month: 1, amount: 0, label: `Windfall ${lumpSums.length + 1}` },
+    ]);
+  };
+
+  const handleRemove = (index: number) => {
+    onChange(lumpSums.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div style={{ marginTop: "4px", marginBottom: "16px" }}>
+      <div
+        style={{
+          fontSize: "12px",
+          color: "#9ca3af",
+          marginBottom: "6px",
+        }}
+      >
+        “What if a one-time payment lands?” (tax refund, bonus…)
+      </div>
+
+      {lumpSums.length > 0 && (
+        <div
+          style={{
+            display: "grid",
+            gridTemplateColumns: "1.2fr 0.7fr 0.9fr 1.2fr 40px",
+            gap: "6px",
+            fontSize: "11px",
+            color: "#6b7280",
+            marginBottom: "4px",
+          }}
+        >
+          <span>Label</span>
+          <span>Month #</span>
+          <span>Amount ({currencySymbol(money)})</span>
+          <span>Goes to</span>
+          <span />
+        </div>
+      )}
+
+      {lumpSums.map((lump, index) => (
+        <div
+          key={index}
+          style={{
+            display: "grid",
+            gridTemplateColumns: "1.2fr 0.7fr 0.9fr 1.2fr 40px",
+            gap: "6px",
+            marginBottom: "6px",
+          }}
+        >
+          <input
+            type="text"
+            value={lump.label ?? ""}
+            onChange={(e) => update(index, { label: e.target.value })}
+            style={inputStyle}
+          />
+          <input
+            type="number"
+            inputMode="numeric"
+            min={1}
+            step="1"
+            value={lump.month}
+            onChange={(e) =>
+              update(index, {
+                month: Math.max(1, parseInt(e.target.value || "1", 10) || 1),
+              })
+            }
+            style={inputStyle}
+          />
+          <input
+            type="number"
+            inputMode="decimal"
+            min={0}
+            value={lump.amount || ""}
+            placeholder="e.g. 1500"
+            onChange={(e) =>
+              update(index, { amount: parseFloat(e.target.value || "0") || 0 })
+            }
+            style={inputStyle}
+          />
+          <select
+            value={lump.debtId ?? ""}
+            onChange={(e) =>
+              update(index, {
+                debtId: e.target.value ? Number(e.target.value) : undefined,
+              })
+            }
+            style={inputStyle}
+          >
+            <option value="">Strategy order</option>
+            {debts.map((d) => (
+              <option key={d.id} value={d.id}>
+                {d.name || `Card ${d.id}`}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => handleRemove(index)}
+            style={{
+              borderRadius: "8px",
+              border: "none",
+              background: "#7f1d1d",
+              color: "#fee2e2",
+              fontSize: "12px",
+              cursor: "pointer",
+            }}
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={handleAdd}
+        style={{
+          borderRadius: "999px",
+          padding: "6px 12px",
+          border: "1px dashed #38bdf8",
+          background: "transparent",
+          color: "#e0f2fe",
+          fontSize: "12px",
+          cursor: "pointer",
+        }}
+      >
+        + Add one-time payment
+      </button>
+    </div>
+  );
+}
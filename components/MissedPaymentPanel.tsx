@@ -0,0 +1,238 @@
+"use client";
+
+import { useMemo, useState } from "react";
+
+import {
+  type Debt,
+  type PlanOptions,
+  type Strategy,
+  DEFAULT_LATE_TERMS,
+  currencySymbol,
+  formatCurrency,
+} from "@/lib/debtPlan";
+import { simulateMissedPayments } from "@/lib/missedPayment";
+import { useMoneyFormat } from "@/lib/debtStore";
+import { parseNum } from "@/lib/numbers";
+import { fullWidthInputStyle, labelStyle } from "@/components/formStyles";
+
+type MissedPaymentPanelProps = {
+  debts: Debt[];
+  monthlyBudget: number;
+  strategy: Strategy;
+  options?: PlanOptions;
+};
+
+export default function MissedPaymentPanel({
+  debts,
+  monthlyBudget,
+  strategy,
+  options,
+}: MissedPaymentPanelProps) {
+  const money = useMoneyFormat();
+
+  const [debtId, setDebtId] = useState<number | null>(null);
+  const [month, setMonth] = useState("3");
+  const [monthsInRow, setMonthsInRow] = useState("1");
+  const [amountPaid, setAmountPaid] = useState("0");
+  const [lateFee, setLateFee] = useState(DEFAULT_LATE_TERMS.lateFee.toString());
+  const [penaltyApr, setPenaltyApr] = useState(
+    DEFAULT_LATE_TERMS.penaltyApr.toString()
+  );
+
+  const targetId =
+    debtId != null && debts.some((d) => d.id === debtId)
+      ? debtId
+      : (debts[0]?.id ?? null);
+
+  const scenario = useMemo(() => {
+    if (targetId == null) return null;
+    const first = Math.max(1, Math.floor(parseNum(month)));
+    const count = Math.max(1, Math.floor(parseNum(monthsInRow)));
+    const missed = Array.from({ length: count }, (_, k) => ({
+      month: first + k,
+      debtId: targetId,
+      amountPaid: parseNum(amountPaid),
+    }));
+    return simulateMissedPayments(
+      debts,
+      monthlyBudget,
+      strategy,
+      missed,
+      {
+        ...DEFAULT_LATE_TERMS,
+        lateFee: parseNum(lateFee),
+        penaltyApr: parseNum(penaltyApr),
+      },
+      options
+    );
+  }, [
+    debts,
+    monthlyBudget,
+    strategy,
+    options,
+    targetId,
+    month,
+    monthsInRow,
+    amountPaid,
+    lateFee,
+    penaltyApr,
+  ]);
+
+  if (!debts.length) return null;
+
+  return (
+    <div
+      style={{
+        marginBottom: "12px",
+        padding: "10px 12px",
+        borderRadius: "12px",
+        background: "#020617",
+        border: "1px solid #1f2937",
+        fontSize: "13px",
+        color: "#d1d5db",
+      }}
+    >
+      <p style={{ fontWeight: 600, marginBottom: "8px", color: "#e5e7eb" }}>
+        😬 What if I skip a payment?
+      </p>
+
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: "repeat(auto-fit, minmax(120px, 1fr))",
+          gap: "8px",
+          marginBottom: "10px",
+        }}
+      >
+        <label style={labelStyle}>
+          Card
+          <select
+            value={targetId ?? ""}
+            onChange={(e) => setDebtId(Number(e.target.value))}
+            style={fullWidthInputStyle}
+          >
+            {debts.map((d) => (
+              <option key={d.id} value={d.id}>
+                {d.name || `Card ${d.id}`}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label style={labelStyle}>
+          In month #
+          <input
+            type="number"
+            inputMode="numeric"
+            min={1}
+            step="1"
+            value={month}
+            onChange={(e) => setMonth(e.target.value)}
+            style={fullWidthInputStyle}
+          />
+        </label>
+        <label style={labelStyle}>
+          Months in a row
+          <input
+            type="number"
+            inputMode="numeric"
+            min={1}
+            step="1"
+            value={monthsInRow}
+            onChange={(e) => setMonthsInRow(e.target.value)}
+            style={fullWidthInputStyle}
+          />
+        </label>
+        <label style={labelStyle}>
+          Paying instead ({currencySymbol(money)})
+          <input
+            type="number"
+            inputMode="decimal"
+            min={0}
+            value={amountPaid}
+            onChange={(e) => setAmountPaid(e.target.value)}
+            style={fullWidthInputStyle}
+          />
+        </label>
+        <label style={labelStyle}>
+          Late fee ({currencySymbol(money)})
+          <input
+            type="number"
+            inputMode="decimal"
+            min={0}
+            value={lateFee}
+            onChange={(e) => setLateFee(e.target.value)}
+            style={fullWidthInputStyle}
+          />
+        </label>
+        <label style={labelStyle}>
+          Penalty APR (%)
+          <input
+            type="number"
+            inputMode="decimal"
+            min={0}
+            step="0.01"
+            value={penaltyApr}
+            onChange={(e) => setPenaltyApr(e.target.value)}
+            style={fullWidthInputStyle}
+          />
+        </label>
+      </div>
+
+      {scenario && "error" in scenario && (
+        <p style={{ color: "#fca5a5" }}>{scenario.error}</p>
+      )}
+
+      {scenario && !("error" in scenario) && (
+        <>
+          <table style={{ width: "100%", borderCollapse: "collapse" }}>
+            <thead>
+              <tr style={{ color: "#9ca3af", fontSize: "11px" }}>
+                <th style={{ textAlign: "left", padding: "4px 0" }} />
+                <th style={{ textAlign: "right", padding: "4px 0" }}>
+                  As planned
+                </th>
+                <th style={{ textAlign: "right", padding: "4px 0" }}>
+                  Skipping
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                <td style={{ padding: "4px 0" }}>Months to debt free</td>
+                <td style={{ textAlign: "right" }}>{scenario.normal.months}</td>
+                <td style={{ textAlign: "right" }}>
+                  {scenario.stressed.months}
+                </td>
+              </tr>
+              <tr>
+                <td style={{ padding: "4px 0" }}>Interest + fees</td>
+                <td style={{ textAlign: "right" }}>
+                  {formatCurrency(scenario.normalCost, money)}
+                </td>
+                <td style={{ textAlign: "right" }}>
+                  {formatCurrency(scenario.stressedCost, money)}
+                </td>
+              </tr>
+            </tbody>
+          </table>
+          <p style={{ marginTop: "6px" }}>
+            ⚠️ That would cost{" "}
+            <strong>
+              {formatCurrency(Math.max(0, scenario.costDiff), money)}
+            </strong>{" "}
+            more: {formatCurrency(scenario.lateFees, money)} in late fees and{" "}
+            {formatCurrency(scenario.extraInterest, money)} in extra interest
+            {scenario.penaltyAprMonths > 0 && (
+              <>
+                , including{" "}
+                <strong>{scenario.penaltyAprMonths} months</strong> at the
+                penalty APR
+              </>
+            )}
+            .
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+"use client";
+
+import { useState } from "react";
+
+import {
+  type Debt,
+  type PlanOptions,
+  type Strategy,
+  currencySymbol,
+  formatCurrency,
+  formatPlanDate,
+} from "@/lib/debtPlan";
+import {
+  type MonteCarloResult,
+  type PayoffPercentile,
+  DEFAULT_MONTE_CARLO_SETTINGS,
+  runMonteCarlo,
+} from "@/lib/monteCarlo";
+import { useMoneyFormat } from "@/lib/debtStore";
+import { parseNum } from "@/lib/numbers";
+import { fullWidthInputStyle, labelStyle } from "@/components/formStyles";
+
+type MonteCarloPanelProps = {
+  debts: Debt[];
+  monthlyBudget: number;
+  strategy: Strategy;
+  options?: PlanOptions;
+  result: MonteCarloResult | null;
+  onResult: (result: MonteCarloResult | null) => void;
+};
+
+export default function MonteCarloPanel({
+  debts,
+  monthlyBudget,
+  strategy,
+  options,
+  result,
+  onResult,
+}: MonteCarloPanelProps) {
+  const money = useMoneyFormat();
+
+  const defaults = DEFAULT_MONTE_CARLO_SETTINGS;
+  const [runs, setRuns] = useState(defaults.runs.toString());
+  const [shortfallChance, setShortfallChance] = useState(
+    defaults.shortfallChancePct.toString()
+  );
+  const [shortfallPct, setShortfallPct] = useState(
+    defaults.shortfallPct.toString()
+  );
+  const [aprChance, setAprChance] = useState(
+    defaults.aprChangeChancePct.toString()
+  );
+  const [aprMaxPts, setAprMaxPts] = useState(
+    defaults.aprChangeMaxPts.toString()
+  );
+  const [surpriseChance, setSurpriseChance] = useState(
+    defaults.surpriseChancePct.toString()
+  );
+  const [surpriseAmount, setSurpriseAmount] = useState(
+    defaults.surpriseAmount.toString()
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  if (!debts.length) return null;
+
+  // a few hundred full plans, so it runs on request rather than on every
+  // keystroke
+  const handleRun = () => {
+    const outcome = runMonteCarlo(
+      debts,
+      monthlyBudget,
+      strategy,
+      {
+        runs: Math.min(1000, Math.max(1, Math.floor(parseNum(runs)))),
+        shortfallChancePct: parseNum(shortfallChance),
+        shortfallPct: parseNum(shortfallPct),
+        aprChangeChancePct: parseNum(aprChance),
+        aprChangeMaxPts: parseNum(aprMaxPts),
+        surpriseChancePct: parseNum(surpriseChance),
+        surpriseAmount: parseNum(surpriseAmount),
+      },
+      options
+    );
+    if ("error" in outcome) {
+      setError(outcome.error);
+      onResult(null);
+      return;
+    }
+    setError(null);
+    onResult(outcome);
+  };
+
+  const payoffLabel = (p: PayoffPercentile) =>
+    p.date
+      ? `${formatPlanDate(p.date, false, money.locale)} (month ${p.months})`
+      : "never";
+
+  const fields: [string, string, (v: string) => void][] = [
+    ["Simulations", runs, setRuns],
+    ["Chance a month runs short (%)", shortfallChance, setShortfallChance],
+    ["Budget lost that month (%)", shortfallPct, setShortfallPct],
+    ["Chance a card's rate moves, per year (%)", aprChance, setAprChance],
+    ["Rate move, up to ± (points)", aprMaxPts, setAprMaxPts],
+    [
+      "Chance of a surprise bill, per month (%)",
+      surpriseChance,
+      setSurpriseChance,
+    ],
+    [
+      `Typical surprise bill (${currencySymbol(money)})`,
+      surpriseAmount,
+      setSurpriseAmount,
+    ],
+  ];
+
+  return (
+    <div
+      style={{
+        marginBottom: "12px",
+        padding: "10px 12px",
+        borderRadius: "12px",
+        background: "#020617",
+        border: "1px solid #1f2937",
+        fontSize: "13px",
+        color: "#d1d5db",
+      }}
+    >
+      <p style={{ fontWeight: 600, marginBottom: "8px", color: "#e5e7eb" }}>
+        🎲 How sure is that date?
+      </p>
+
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: "repeat(auto-fit, minmax(150px, 1fr))",
+          gap: "8px",
+          marginBottom: "10px",
+        }}
+      >
+        {fields.map(([label, value, setValue]) => (
+          <label key={label} style={labelStyle}>
+            {label}
+            <input
+              type="number"
+              inputMode="decimal"
+              min={0}
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              style={fullWidthInputStyle}
+            />
+          </label>
+        ))}
+      </div>
+
+      <button
+        type="button"
+        onClick={handleRun}
+        style={{
+          borderRadius: "999px",
+          padding: "6px 12px",
+          border: "1px solid #38bdf8",
+          background: "transparent",
+          color: "#e0f2fe",
+          fontSize: "12px",
+          cursor: "pointer",
+          marginBottom: result || error ? "10px" : 0,
+        }}
+      >
+        {result ? "Run again" : "Run simulations"}
+      </button>
+
+      {error && <p style={{ color: "#fca5a5" }}>{error}</p>}
+
+      {result && (
+        <>
+          <p style={{ marginBottom: "6px" }}>
+            Across <strong>{result.runs}</strong> versions of the next few
+            years, you&apos;re debt free:
+          </p>
+          <ul style={{ margin: "0 0 6px", paddingLeft: "18px" }}>
+            <li>
+              1 in 10 by <strong>{payoffLabel(result.payoff.p10)}</strong>
+            </li>
+            <li>
+              half the time by{" "}
+              <strong>{payoffLabel(result.payoff.p50)}</strong>
+            </li>
+            <li>
+              9 in 10 by <strong>{payoffLabel(result.payoff.p90)}</strong>
+            </li>
+          </ul>
+          <p>
+            Total interest is likely between{" "}
+            <strong>{formatCurrency(result.totalInterest.p10, money)}</strong>{" "}
+            and{" "}
+            <strong>{formatCurrency(result.totalInterest.p90, money)}</strong>{" "}
+            (typically{" "}
+            {formatCurrency(result.totalInterest.p50, money)}), against{" "}
+            {formatCurrency(result.basePlan.totalInterest, money)} if
+            everything goes to plan.
+          </p>
+          {result.neverFinished > 0 && (
+            <p style={{ marginTop: "6px", color: "#fca5a5" }}>
+              ⚠️ In {result.neverFinished} of {result.runs} runs the balances
+              never came down.
+            </p>
+          )}
+          <p style={{ marginTop: "6px", color: "#6b7280", fontSize: "11px" }}>
+            The shaded band on the chart below covers the middle 80% of runs.
+            {strategy === "wizard" &&
+              " Each run keeps the Wizard's payoff order from your plan."}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,358 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer,
+} from "recharts";
+
+import {
+  type Debt,
+  type PlanOptions,
+  type PlanResult,
+  type Strategy,
+  formatCurrency,
+  formatPlanDate,
+  getStrategyLabel,
+  runPlanSafe,
+} from "@/lib/debtPlan";
+import { comparePlans } from "@/lib/planDiff";
+import { useMoneyFormat } from "@/lib/debtStore";
+import { inputStyle } from "@/components/formStyles";
+
+// a ready-made plan to diff against (e.g. the what-if extra payment)
+export type PlanDiffScenario = {
+  key: string;
+  label: string;
+  plan: PlanResult;
+};
+
+type PlanDiffPanelProps = {
+  debts: Debt[];
+  monthlyBudget: number;
+  plan: PlanResult; // the plan the user chose
+  options?: PlanOptions;
+  scenarios?: PlanDiffScenario[];
+};
+
+const STRATEGIES: Strategy[] = ["warrior", "rebel", "wizard", "guardian"];
+
+// months shown before "Show all months"
+const PREVIEW_MONTHS = 12;
+
+const cellStyle: React.CSSProperties = {
+  padding: "4px 6px",
+  borderBottom: "1px solid #1f2937",
+  textAlign: "right",
+};
+
+export default function PlanDiffPanel({
+  debts,
+  monthlyBudget,
+  plan,
+  options,
+  scenarios = [],
+}: PlanDiffPanelProps) {
+  const money = useMoneyFormat();
+
+  const chosen = plan.strategyUsed;
+  const choices = [
+    ...STRATEGIES.filter((s) => s !== chosen).map((s) => ({
+      key: s as string,
+      label: getStrategyLabel(s),
+    })),
+    ...scenarios.map((s) => ({ key: s.key, label: s.label })),
+  ];
+  // avalanche vs snowball by default, like Home's comparison summary
+  const defaultKey = chosen === "rebel" ? "warrior" : "rebel";
+
+  const [against, setAgainst] = useState<string>(defaultKey);
+  const [showAll, setShowAll] = useState(false);
+  const selected = choices.some((c) => c.key === against)
+    ? against
+    : defaultKey;
+
+  const other = useMemo(() => {
+    const scenario = scenarios.find((s) => s.key === selected);
+    if (scenario) return scenario.plan;
+    return runPlanSafe(debts, monthlyBudget, selected as Strategy, options);
+  }, [scenarios, selected, debts, monthlyBudget, options]);
+
+  const diff = useMemo(
+    () => (other ? comparePlans(plan, other) : null),
+    [plan, other]
+  );
+
+  const otherLabel = choices.find((c) => c.key === selected)?.label ?? "";
+  const monthLabel = (date: string) =>
+    formatPlanDate(date, true, money.locale);
+  const signed = (value: number) =>
+    `${value > 0 ? "+" : value < 0 ? "−" : ""}${formatCurrency(
+      Math.abs(value),
+      money
+    )}`;
+
+  const rows = diff
+    ? diff.months.slice(0, showAll ? diff.months.length : PREVIEW_MONTHS)
+    : [];
+
+  return (
+    <div
+      style={{
+        marginBottom: "12px",
+        padding: "10px 12px",
+        borderRadius: "12px",
+        background: "#020617",
+        border: "1px solid #1f2937",
+        fontSize: "13px",
+        color: "#d1d5db",
+      }}
+    >
+      <div
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          alignItems: "center",
+          justifyContent: "space-between",
+          gap: "8px",
+          marginBottom: "8px",
+        }}
+      >
+        <p style={{ fontWeight: 600, color: "#e5e7eb" }}>
+          🔀 {getStrategyLabel(chosen)} vs…
+        </p>
+        <select
+          value={selected}
+          onChange={(e) => setAgainst(e.target.value)}
+          style={inputStyle}
+        >
+          {choices.map((c) => (
+            <option key={c.key} value={c.key}>
+              {c.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {!diff ? (
+        <p style={{ color: "#fca5a5" }}>
+          {otherLabel} can&apos;t pay these debts off with this budget.
+        </p>
+      ) : (
+        <>
+          {diff.interestDiff > 0 ? (
+            <p style={{ marginBottom: "8px" }}>
+              ✅ Compared to <strong>{otherLabel}</strong>, your plan is
+              projected to{" "}
+              <strong>
+                save {formatCurrency(diff.interestDiff, money)} in interest
+              </strong>
+              {diff.monthsDiff > 0 && (
+                <>
+                  {" "}
+                  and finish{" "}
+                  <strong>
+                    {diff.monthsDiff} month{diff.monthsDiff === 1 ? "" : "s"}{" "}
+                    sooner
+                  </strong>
+                </>
+              )}
+              {diff.monthsDiff < 0 && (
+                <>
+                  , finishing{" "}
+                  {Math.abs(diff.monthsDiff)} month
+                  {diff.monthsDiff === -1 ? "" : "s"} later
+                </>
+              )}
+              .
+            </p>
+          ) : diff.interestDiff < 0 ? (
+            <p style={{ marginBottom: "8px" }}>
+              ⚠️ <strong>{otherLabel}</strong> might save you more: about{" "}
+              <strong>
+                {formatCurrency(Math.abs(diff.interestDiff), money)}
+              </strong>{" "}
+              less interest
+              {diff.monthsDiff !== 0 &&
+                `, finishing ${Math.abs(diff.monthsDiff)} month${
+                  Math.abs(diff.monthsDiff) === 1 ? "" : "s"
+                } ${diff.monthsDiff < 0 ? "sooner" : "later"}`}
+              .
+            </p>
+          ) : (
+            <p style={{ marginBottom: "8px" }}>
+              🤝 <strong>{otherLabel}</strong> costs the same interest
+              {diff.monthsDiff !== 0 &&
+                ` but finishes ${Math.abs(diff.monthsDiff)} month${
+                  Math.abs(diff.monthsDiff) === 1 ? "" : "s"
+                } ${diff.monthsDiff < 0 ? "sooner" : "later"}`}
+              .
+            </p>
+          )}
+
+          {diff.widestGap && diff.widestGap.balanceGap !== 0 && (
+            <p style={{ marginBottom: "8px", color: "#9ca3af" }}>
+              The balances are furthest apart in{" "}
+              {monthLabel(diff.widestGap.date)}:{" "}
+              {formatCurrency(Math.abs(diff.widestGap.balanceGap), money)}{" "}
+              {diff.widestGap.balanceGap > 0 ? "less" : "more"} owed on your
+              plan.
+            </p>
+          )}
+
+          <p style={{ fontSize: "11px", color: "#6b7280" }}>
+            How much more {otherLabel} owes each month (below zero = your plan
+            owes more)
+          </p>
+          <div style={{ width: "100%", height: 160, marginBottom: "10px" }}>
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart
+                data={diff.months}
+                margin={{ top: 4, right: 12, left: 0, bottom: 4 }}
+              >
+                <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" />
+                <XAxis
+                  dataKey="date"
+                  tick={{ fontSize: 10, fill: "#9ca3af" }}
+                  stroke="#4b5563"
+                  tickFormatter={monthLabel}
+                />
+                <YAxis
+                  tick={{ fontSize: 10, fill: "#9ca3af" }}
+                  stroke="#4b5563"
+                  tickFormatter={(v: number) =>
+                    Math.abs(v) >= 1000
+                      ? `${(v / 1000).toFixed(0)}k`
+                      : v.toFixed(0)
+                  }
+                />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: "#020617",
+                    border: "1px solid #374151",
+                    borderRadius: "8px",
+                    fontSize: "11px",
+                  }}
+                  formatter={(value, name) => [signed(Number(value)), name]}
+                  labelFormatter={(label) =>
+                    formatPlanDate(String(label), false, money.locale)
+                  }
+                />
+                <ReferenceLine y={0} stroke="#6b7280" />
+                <Area
+                  type="monotone"
+                  dataKey="balanceGap"
+                  name="Balance gap"
+                  stroke="#38bdf8"
+                  fill="#38bdf8"
+                  fillOpacity={0.2}
+                />
+                <Area
+                  type="monotone"
+                  dataKey="interestGap"
+                  name="Interest gap (so far)"
+                  stroke="#f97316"
+                  fill="none"
+                />
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+
+          {diff.payoffTiming.length > 0 && (
+            <div style={{ marginBottom: "10px" }}>
+              <p style={{ marginBottom: "4px", color: "#e5e7eb" }}>
+                Paid off at different times
+              </p>
+              <ul style={{ margin: 0, paddingLeft: "18px" }}>
+                {diff.payoffTiming.map((t) => (
+                  <li key={t.debtId}>
+                    <strong>{t.name || `Card ${t.debtId}`}</strong>:{" "}
+                    {t.dateA ? monthLabel(t.dateA) : "not paid off"} on your
+                    plan vs {t.dateB ? monthLabel(t.dateB) : "not paid off"}{" "}
+                    ({Math.abs(t.monthsApart)} month
+                    {Math.abs(t.monthsApart) === 1 ? "" : "s"}{" "}
+                    {t.monthsApart > 0 ? "sooner" : "later"} on yours)
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div style={{ overflowX: "auto" }}>
+            <table
+              style={{
+                width: "100%",
+                borderCollapse: "collapse",
+                fontSize: "12px",
+              }}
+            >
+              <thead>
+                <tr style={{ color: "#9ca3af" }}>
+                  <th style={{ ...cellStyle, textAlign: "left" }}>Month</th>
+                  <th style={cellStyle}>Your balance</th>
+                  <th style={cellStyle}>{otherLabel}</th>
+                  <th style={cellStyle}>Gap</th>
+                  <th style={cellStyle}>Interest gap (so far)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((m) => (
+                  <tr key={m.month}>
+                    <td style={{ ...cellStyle, textAlign: "left" }}>
+                      {monthLabel(m.date)}
+                    </td>
+                    <td style={cellStyle}>
+                      {formatCurrency(m.balanceA, money)}
+                    </td>
+                    <td style={cellStyle}>
+                      {formatCurrency(m.balanceB, money)}
+                    </td>
+                    <td
+                      style={{
+                        ...cellStyle,
+                        color:
+                          m.balanceGap > 0
+                            ? "#4ade80"
+                            : m.balanceGap < 0
+                              ? "#fca5a5"
+                              : undefined,
+                      }}
+                    >
+                      {signed(m.balanceGap)}
+                    </td>
+                    <td style={cellStyle}>{signed(m.interestGap)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {diff.months.length > PREVIEW_MONTHS && (
+            <button
+              type="button"
+              onClick={() => setShowAll((v) => !v)}
+              style={{
+                marginTop: "8px",
+                borderRadius: "999px",
+                padding: "6px 12px",
+                border: "1px solid #38bdf8",
+                background: "transparent",
+                color: "#e0f2fe",
+                fontSize: "12px",
+                cursor: "pointer",
+              }}
+            >
+              {showAll ? "Show fewer months" : "Show all months"}
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,336 @@
+"use client";
+
+import { useState } from "react";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+} from "recharts";
+
+import {
+  type Debt,
+  type PlanOptions,
+  type Strategy,
+  formatCurrency,
+} from "@/lib/debtPlan";
+import {
+  type SensitivityInput,
+  type SensitivityReport,
+  DEFAULT_SENSITIVITY_SETTINGS,
+  analyzeSensitivity,
+} from "@/lib/sensitivity";
+import { useMoneyFormat } from "@/lib/debtStore";
+import { parseNum } from "@/lib/numbers";
+import { fullWidthInputStyle, labelStyle } from "@/components/formStyles";
+
+type SensitivityPanelProps = {
+  debts: Debt[];
+  monthlyBudget: number;
+  strategy: Strategy;
+  options?: PlanOptions;
+};
+
+type Metric = "totalInterest" | "months";
+
+// the last report and what it was run on; changing a setting or
+// recalculating the plan hides it until the next run
+type Analyzed = {
+  debts: Debt[];
+  monthlyBudget: number;
+  strategy: Strategy;
+  options?: PlanOptions;
+  aprPoints: string;
+  budgetPct: string;
+  report: SensitivityReport | { error: string };
+};
+
+// below this a rate cut isn't worth the time on the phone
+const WORTH_A_CALL = 50;
+
+export default function SensitivityPanel({
+  debts,
+  monthlyBudget,
+  strategy,
+  options,
+}: SensitivityPanelProps) {
+  const money = useMoneyFormat();
+
+  const [aprPoints, setAprPoints] = useState(
+    DEFAULT_SENSITIVITY_SETTINGS.aprPoints.toString()
+  );
+  const [budgetPct, setBudgetPct] = useState(
+    DEFAULT_SENSITIVITY_SETTINGS.budgetPct.toString()
+  );
+  const [metric, setMetric] = useState<Metric>("totalInterest");
+  const [analyzed, setAnalyzed] = useState<Analyzed | null>(null);
+
+  const report =
+    analyzed &&
+    analyzed.debts === debts &&
+    analyzed.monthlyBudget === monthlyBudget &&
+    analyzed.strategy === strategy &&
+    analyzed.options === options &&
+    analyzed.aprPoints === aprPoints &&
+    analyzed.budgetPct === budgetPct
+      ? analyzed.report
+      : null;
+
+  if (!debts.length) return null;
+
+  // two full plans per card plus two for the budget, so it runs on request
+  // rather than on every keystroke
+  const handleRun = () => {
+    setAnalyzed({
+      debts,
+      monthlyBudget,
+      strategy,
+      options,
+      aprPoints,
+      budgetPct,
+      report: analyzeSensitivity(
+        debts,
+        monthlyBudget,
+        strategy,
+        {
+          aprPoints: parseNum(aprPoints),
+          budgetPct: parseNum(budgetPct),
+        },
+        options
+      ),
+    });
+  };
+
+  const format = (value: number) =>
+    metric === "months"
+      ? `${value > 0 ? "+" : ""}${value.toFixed(0)} mo`
+      : `${value > 0 ? "+" : ""}${formatCurrency(value, money)}`;
+
+  const base = !report || "error" in report ? null : report.base;
+  const baseCost = base ? base.totalInterest + base.totalFees : 0;
+  const baseValue = metric === "months" ? (base?.months ?? 0) : baseCost;
+  const delta = (side: SensitivityInput["low"]) =>
+    side ? side[metric] - baseValue : 0;
+
+  const ranked =
+    !report || "error" in report
+      ? []
+      : [...report.inputs].sort((a, b) =>
+        metric === "months"
+          ? b.monthsSwing - a.monthsSwing || 0
+          : b.interestSwing - a.interestSwing || 0
+      );
+  const data = ranked.map((input) => ({
+    label: input.label,
+    low: delta(input.low),
+    high: delta(input.high),
+  }));
+  const failed = ranked.filter((i) => !i.low || !i.high);
+
+  // what a rate cut of aprPoints is worth on each card
+  const calls = ranked
+    .filter((i) => i.debtId != null && i.low)
+    .map((i) => ({
+      label: i.label.replace(/ APR$/, ""),
+      saved: baseCost - (i.low?.totalInterest ?? 0),
+      monthsSaved: (base?.months ?? 0) - (i.low?.months ?? 0),
+    }))
+    .sort((a, b) => b.saved - a.saved);
+  const best = calls[0];
+
+  return (
+    <div
+      style={{
+        marginBottom: "12px",
+        padding: "10px 12px",
+        borderRadius: "12px",
+        background: "#020617",
+        border: "1px solid #1f2937",
+        fontSize: "13px",
+        color: "#d1d5db",
+      }}
+    >
+      <p style={{ fontWeight: 600, marginBottom: "8px", color: "#e5e7eb" }}>
+        🌪️ What moves your plan the most?
+      </p>
+
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: "repeat(auto-fit, minmax(130px, 1fr))",
+          gap: "8px",
+          marginBottom: "10px",
+        }}
+      >
+        <label style={labelStyle}>
+          APR moves ± (points)
+          <select
+            value={aprPoints}
+            onChange={(e) => setAprPoints(e.target.value)}
+            style={fullWidthInputStyle}
+          >
+            {[1, 2, 3, 4, 5].map((p) => (
+              <option key={p} value={p}>
+                {p}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label style={labelStyle}>
+          Budget moves ± (%)
+          <input
+            type="number"
+            inputMode="decimal"
+            min={0}
+            max={100}
+            value={budgetPct}
+            onChange={(e) => setBudgetPct(e.target.value)}
+            style={fullWidthInputStyle}
+          />
+        </label>
+        <label style={labelStyle}>
+          Rank by
+          <select
+            value={metric}
+            onChange={(e) => setMetric(e.target.value as Metric)}
+            style={fullWidthInputStyle}
+          >
+            <option value="totalInterest">Total interest</option>
+            <option value="months">Months to payoff</option>
+          </select>
+        </label>
+      </div>
+
+      <button
+        type="button"
+        onClick={handleRun}
+        style={{
+          borderRadius: "999px",
+          padding: "6px 12px",
+          border: "1px solid #38bdf8",
+          background: "transparent",
+          color: "#e0f2fe",
+          fontSize: "12px",
+          cursor: "pointer",
+          marginBottom: report ? "10px" : 0,
+        }}
+      >
+        {report ? "Run again" : "Run report"}
+      </button>
+
+      {!report ? null : "error" in report ? (
+        <p style={{ color: "#fca5a5" }}>{report.error}</p>
+      ) : (
+        <>
+          <div
+            style={{
+              width: "100%",
+              height: 40 + data.length * 36,
+              marginBottom: "8px",
+            }}
+          >
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart
+                data={data}
+                layout="vertical"
+                stackOffset="sign"
+                margin={{ top: 4, right: 12, left: 8, bottom: 4 }}
+              >
+                <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" />
+                <XAxis
+                  type="number"
+                  tick={{ fontSize: 10, fill: "#9ca3af" }}
+                  stroke="#4b5563"
+                  tickFormatter={format}
+                />
+                <YAxis
+                  type="category"
+                  dataKey="label"
+                  width={120}
+                  tick={{ fontSize: 10, fill: "#9ca3af" }}
+                  stroke="#4b5563"
+                />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: "#020617",
+                    border: "1px solid #374151",
+                    borderRadius: "8px",
+                    fontSize: "11px",
+                  }}
+                  formatter={(value, name) => [format(Number(value)), name]}
+                />
+                <Legend wrapperStyle={{ fontSize: "11px" }} />
+                <ReferenceLine x={0} stroke="#6b7280" />
+                <Bar
+                  dataKey="low"
+                  name={`APR −${report.aprPoints} / budget −${report.budgetPct}%`}
+                  stackId="swing"
+                  fill="#38bdf8"
+                />
+                <Bar
+                  dataKey="high"
+                  name={`APR +${report.aprPoints} / budget +${report.budgetPct}%`}
+                  stackId="swing"
+                  fill="#f97316"
+                />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          {failed.length > 0 && (
+            <p style={{ marginBottom: "6px", color: "#fca5a5" }}>
+              ⚠️ The plan can&apos;t be built when{" "}
+              {failed.map((i) => i.label.toLowerCase()).join(", ")} moves
+              the wrong way, so{" "}
+              {failed.length === 1 ? "it ranks" : "they rank"} first.
+            </p>
+          )}
+
+          {best && best.saved >= WORTH_A_CALL ? (
+            <p>
+              📞 Worth a call: getting <strong>{best.label}</strong> to
+              lower its APR by {report.aprPoints} points saves about{" "}
+              <strong>{formatCurrency(best.saved, money)}</strong>
+              {best.monthsSaved > 0
+                ? ` and ${best.monthsSaved.toFixed(0)} month${
+                  best.monthsSaved === 1 ? "" : "s"
+                }`
+                : ""}
+              .
+              {calls.length > 1 && (
+                <>
+                  {" "}
+                  Next best:{" "}
+                  {calls
+                    .slice(1)
+                    .map(
+                      (c) =>
+                        `${c.label} (${formatCurrency(c.saved, money)})`
+                    )
+                    .join(", ")}
+                  .
+                </>
+              )}
+            </p>
+          ) : (
+            <p>
+              📞 A {report.aprPoints}-point APR cut saves less than{" "}
+              {formatCurrency(WORTH_A_CALL, money)} on any card, so
+              negotiating probably isn&apos;t worth the call.
+            </p>
+          )}
+          {strategy === "wizard" && (
+            <p style={{ marginTop: "6px", color: "#6b7280", fontSize: "11px" }}>
+              Each run keeps the Wizard&apos;s payoff order from your plan.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
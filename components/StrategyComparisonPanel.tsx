@@ -0,0 +1,267 @@
+"use client";
+
+import { useMemo } from "react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+
+import {
+  type Debt,
+  type PlanOptions,
+  type Strategy,
+  formatCurrency,
+  formatPlanDate,
+} from "@/lib/debtPlan";
+import {
+  type ComparisonKey,
+  type StrategyComparisonRow,
+  compareStrategies,
+} from "@/lib/strategyComparison";
+import { useMoneyFormat } from "@/lib/debtStore";
+
+type StrategyComparisonPanelProps = {
+  debts: Debt[];
+  monthlyBudget: number;
+  options?: PlanOptions;
+  winner: Strategy | null;
+  onPickWinner: (strategy: Strategy) => void;
+};
+
+const LINE_COLORS: Record<ComparisonKey, string> = {
+  warrior: "#f97316",
+  rebel: "#38bdf8",
+  wizard: "#a78bfa",
+  custom: "#facc15",
+  guardian: "#f472b6",
+  minimums: "#6b7280",
+};
+
+const cellStyle: React.CSSProperties = {
+  padding: "4px 6px",
+  borderBottom: "1px solid #1f2937",
+  textAlign: "left",
+  verticalAlign: "top",
+};
+
+export default function StrategyComparisonPanel({
+  debts,
+  monthlyBudget,
+  options,
+  winner,
+  onPickWinner,
+}: StrategyComparisonPanelProps) {
+  const money = useMoneyFormat();
+
+  const comparison = useMemo(
+    () => compareStrategies(debts, monthlyBudget, options),
+    [debts, monthlyBudget, options]
+  );
+
+  if (!debts.length) return null;
+
+  const { rows, cheapest } = comparison;
+  const strategyRows = rows.filter((r) => r.key !== "minimums");
+  const baseline = rows.find((r) => r.key === "minimums");
+
+  // the chart stops with the slowest strategy; the baseline usually runs
+  // far past it and would flatten the other lines
+  const chartMonths = Math.max(
+    0,
+    ...strategyRows.map((r) => r.plan?.schedule.length ?? 0)
+  );
+  const dateSource = strategyRows.find(
+    (r) => r.plan?.schedule.length === chartMonths
+  )?.plan;
+  const data = Array.from({ length: chartMonths }, (_, i) => ({
+    label: dateSource
+      ? formatPlanDate(dateSource.schedule[i].date, true, money.locale)
+      : `Month ${i + 1}`,
+    ...Object.fromEntries(
+      rows
+        .filter((r) => r.plan)
+        .map((r) => [r.key, r.plan?.schedule[i]?.totalBalanceEnd ?? 0])
+    ),
+  }));
+
+  const monthsLabel = (row: StrategyComparisonRow) =>
+    row.plan ? `${row.months} mo` : "—";
+  const firstPayoffLabel = (row: StrategyComparisonRow) =>
+    row.firstPayoffMonth != null && row.firstPayoffDate
+      ? `${formatPlanDate(row.firstPayoffDate, true, money.locale)} (month ${
+        row.firstPayoffMonth
+      })`
+      : "—";
+
+  return (
+    <div
+      style={{
+        marginBottom: "12px",
+        padding: "10px 12px",
+        borderRadius: "12px",
+        background: "#020617",
+        border: "1px solid #1f2937",
+        fontSize: "13px",
+        color: "#d1d5db",
+      }}
+    >
+      <p style={{ fontWeight: 600, marginBottom: "8px", color: "#e5e7eb" }}>
+        🏁 All strategies side by side
+      </p>
+
+      {chartMonths > 0 && (
+        <div style={{ width: "100%", height: 220, marginBottom: "10px" }}>
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart
+              data={data}
+              margin={{ top: 4, right: 12, left: 0, bottom: 4 }}
+            >
+              <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" />
+              <XAxis
+                dataKey="label"
+                tick={{ fontSize: 10, fill: "#9ca3af" }}
+                stroke="#4b5563"
+              />
+              <YAxis
+                tick={{ fontSize: 10, fill: "#9ca3af" }}
+                stroke="#4b5563"
+                tickFormatter={(v: number) =>
+                  v >= 1000 ? `${(v / 1000).toFixed(0)}k` : v.toFixed(0)
+                }
+              />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: "#020617",
+                  border: "1px solid #374151",
+                  borderRadius: "8px",
+                  fontSize: "11px",
+                }}
+                formatter={(value, name) => [
+                  formatCurrency(Number(value), money),
+                  name,
+                ]}
+              />
+              <Legend wrapperStyle={{ fontSize: "11px" }} />
+              {rows
+                .filter((r) => r.plan)
+                .map((r) => (
+                  <Line
+                    key={r.key}
+                    type="monotone"
+                    dataKey={r.key}
+                    name={r.label}
+                    stroke={LINE_COLORS[r.key]}
+                    strokeWidth={r.key === winner ? 3 : 2}
+                    strokeDasharray={r.key === "minimums" ? "4 3" : undefined}
+                    dot={false}
+                  />
+                ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      <div style={{ overflowX: "auto", marginBottom: "8px" }}>
+        <table
+          style={{
+            width: "100%",
+            borderCollapse: "collapse",
+            fontSize: "12px",
+          }}
+        >
+          <thead>
+            <tr style={{ color: "#9ca3af" }}>
+              <th style={cellStyle}>Strategy</th>
+              <th style={cellStyle}>Months</th>
+              <th style={cellStyle}>Total interest</th>
+              <th style={cellStyle}>First card paid off</th>
+              <th style={cellStyle}>Accounts closed per year</th>
+              <th style={cellStyle} />
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => {
+              const isWinner = row.key === winner;
+              return (
+                <tr
+                  key={row.key}
+                  style={{
+                    background: isWinner ? "rgba(34,197,94,0.08)" : undefined,
+                    color: row.key === "minimums" ? "#9ca3af" : undefined,
+                  }}
+                >
+                  <td style={cellStyle}>
+                    <span style={{ color: LINE_COLORS[row.key] }}>●</span>{" "}
+                    {row.label}
+                    {row.key === cheapest && (
+                      <span style={{ color: "#4ade80" }}> · cheapest</span>
+                    )}
+                  </td>
+                  {row.plan ? (
+                    <>
+                      <td style={cellStyle}>{monthsLabel(row)}</td>
+                      <td style={cellStyle}>
+                        {formatCurrency(row.totalInterest, money)}
+                      </td>
+                      <td style={cellStyle}>{firstPayoffLabel(row)}</td>
+                      <td style={cellStyle}>
+                        {row.closedPerYear
+                          .map((y) => `${y.year}: ${y.count}`)
+                          .join(" · ")}
+                      </td>
+                    </>
+                  ) : (
+                    <td colSpan={4} style={{ ...cellStyle, color: "#fca5a5" }}>
+                      {row.error}
+                    </td>
+                  )}
+                  <td style={cellStyle}>
+                    {row.key !== "minimums" && row.plan && (
+                      <button
+                        type="button"
+                        onClick={() => onPickWinner(row.key as Strategy)}
+                        disabled={isWinner}
+                        style={{
+                          borderRadius: "999px",
+                          padding: "2px 10px",
+                          border: isWinner
+                            ? "1px solid #22c55e"
+                            : "1px solid #38bdf8",
+                          background: "transparent",
+                          color: isWinner ? "#4ade80" : "#e0f2fe",
+                          fontSize: "11px",
+                          cursor: isWinner ? "default" : "pointer",
+                          whiteSpace: "nowrap",
+                        }}
+                      >
+                        {isWinner ? "🏆 Winner" : "Pick"}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {baseline?.plan && chartMonths > 0 && baseline.months > chartMonths && (
+        <p style={{ color: "#6b7280", fontSize: "11px" }}>
+          Paying only the minimums keeps going for{" "}
+          {baseline.months - chartMonths} more months after the chart ends.
+        </p>
+      )}
+      {winner && (
+        <p style={{ marginTop: "4px", color: "#6b7280", fontSize: "11px" }}>
+          Picking a winner also makes it your strategy for the next plan.
+        </p>
+      )}
+    </div>
+  );
+}
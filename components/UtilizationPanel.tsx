@@ -0,0 +1,242 @@
+"use client";
+
+import { useMemo } from "react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+} from "recharts";
+
+import {
+  type Debt,
+  type PlanOptions,
+  type PlanResult,
+  calculatePlan,
+  formatCurrency,
+  formatPlanDate,
+} from "@/lib/debtPlan";
+import {
+  type ThresholdCrossing,
+  projectUtilization,
+} from "@/lib/utilization";
+import { useMoneyFormat } from "@/lib/debtStore";
+
+type UtilizationPanelProps = {
+  debts: Debt[];
+  monthlyBudget: number;
+  plan: PlanResult;
+  options?: PlanOptions;
+};
+
+const CARD_COLORS = ["#38bdf8", "#f97316", "#a78bfa", "#facc15", "#f472b6"];
+
+const cellStyle: React.CSSProperties = {
+  padding: "4px 6px",
+  borderBottom: "1px solid #1f2937",
+  textAlign: "left",
+};
+
+export default function UtilizationPanel({
+  debts,
+  monthlyBudget,
+  plan,
+  options,
+}: UtilizationPanelProps) {
+  const money = useMoneyFormat();
+
+  const report = useMemo(() => projectUtilization(plan, debts), [plan, debts]);
+
+  // the same budget with the utilization-first order, for comparison
+  const guardian = useMemo(() => {
+    if (!report || plan.strategyUsed === "guardian") return null;
+    const alt = calculatePlan(
+      debts,
+      monthlyBudget.toString(),
+      "guardian",
+      options
+    );
+    if ("error" in alt) return null;
+    return { plan: alt, report: projectUtilization(alt, debts) };
+  }, [report, plan.strategyUsed, debts, monthlyBudget, options]);
+
+  if (!report) return null;
+
+  const crossingLabel = (crossing: ThresholdCrossing) => {
+    if (!crossing) return "not in this plan";
+    if (crossing.month === 0) return "already";
+    return formatPlanDate(crossing.date, true, money.locale);
+  };
+
+  const data = report.points.map((p) => ({
+    label: p.month === 0 ? "Now" : formatPlanDate(p.date, true, money.locale),
+    overall: p.overall,
+    ...Object.fromEntries(
+      report.cards.map((c) => [`card${c.debtId}`, p.byDebt[c.debtId]])
+    ),
+  }));
+
+  // how much sooner the guardian gets the whole profile under the first
+  // threshold, and what that costs in interest
+  const ours = report.overall.under[0];
+  const theirs = guardian?.report?.overall.under[0] ?? null;
+  const monthsSooner = ours && theirs ? ours.month - theirs.month : 0;
+  const extraInterest = guardian
+    ? guardian.plan.totalInterest +
+      guardian.plan.totalFees -
+      (plan.totalInterest + plan.totalFees)
+    : 0;
+
+  return (
+    <div
+      style={{
+        marginBottom: "12px",
+        padding: "10px 12px",
+        borderRadius: "12px",
+        background: "#020617",
+        border: "1px solid #1f2937",
+        fontSize: "13px",
+        color: "#d1d5db",
+      }}
+    >
+      <p style={{ fontWeight: 600, marginBottom: "8px", color: "#e5e7eb" }}>
+        💳 Credit utilization
+      </p>
+
+      <p style={{ marginBottom: "8px" }}>
+        You&apos;re using{" "}
+        <strong>{report.overall.startPct.toFixed(0)}%</strong> of{" "}
+        {formatCurrency(report.overall.limit, money)} in card limits. Scores
+        tend to improve under 30%, and again under 10%.
+      </p>
+
+      <div style={{ overflowX: "auto", marginBottom: "10px" }}>
+        <table
+          style={{
+            width: "100%",
+            borderCollapse: "collapse",
+            fontSize: "12px",
+          }}
+        >
+          <thead>
+            <tr style={{ color: "#9ca3af" }}>
+              <th style={cellStyle}>Card</th>
+              <th style={cellStyle}>Limit</th>
+              <th style={cellStyle}>Using now</th>
+              {report.thresholds.map((t) => (
+                <th key={t} style={cellStyle}>
+                  Under {(t * 100).toFixed(0)}%
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {report.cards.map((c) => (
+              <tr key={c.debtId}>
+                <td style={cellStyle}>{c.name || `Card ${c.debtId}`}</td>
+                <td style={cellStyle}>{formatCurrency(c.limit, money)}</td>
+                <td style={cellStyle}>{c.startPct.toFixed(0)}%</td>
+                {c.under.map((crossing, i) => (
+                  <td key={i} style={cellStyle}>
+                    {crossingLabel(crossing)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+            <tr style={{ fontWeight: 600, color: "#e5e7eb" }}>
+              <td style={cellStyle}>All cards</td>
+              <td style={cellStyle}>
+                {formatCurrency(report.overall.limit, money)}
+              </td>
+              <td style={cellStyle}>{report.overall.startPct.toFixed(0)}%</td>
+              {report.overall.under.map((crossing, i) => (
+                <td key={i} style={cellStyle}>
+                  {crossingLabel(crossing)}
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      <div style={{ width: "100%", height: 220, marginBottom: "8px" }}>
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart
+            data={data}
+            margin={{ top: 4, right: 12, left: 0, bottom: 4 }}
+          >
+            <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" />
+            <XAxis
+              dataKey="label"
+              tick={{ fontSize: 10, fill: "#9ca3af" }}
+              stroke="#4b5563"
+            />
+            <YAxis
+              tick={{ fontSize: 10, fill: "#9ca3af" }}
+              stroke="#4b5563"
+              tickFormatter={(v) => `${v}%`}
+            />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: "#020617",
+                border: "1px solid #374151",
+                borderRadius: "8px",
+                fontSize: "11px",
+              }}
+              formatter={(value, name) => [
+                `${Number(value).toFixed(1)}%`,
+                name,
+              ]}
+            />
+            <Legend wrapperStyle={{ fontSize: "11px" }} />
+            {report.thresholds.map((t) => (
+              <ReferenceLine
+                key={t}
+                y={t * 100}
+                stroke="#22c55e"
+                strokeDasharray="4 4"
+              />
+            ))}
+            <Line
+              type="monotone"
+              dataKey="overall"
+              name="Overall"
+              stroke="#e5e7eb"
+              strokeWidth={2}
+              dot={false}
+            />
+            {report.cards.map((c, i) => (
+              <Line
+                key={c.debtId}
+                type="monotone"
+                dataKey={`card${c.debtId}`}
+                name={c.name || `Card ${c.debtId}`}
+                stroke={CARD_COLORS[i % CARD_COLORS.length]}
+                dot={false}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      {guardian && monthsSooner > 0 && (
+        <p>
+          🛡️ <strong>The Guardian</strong> would get you under{" "}
+          {(report.thresholds[0] * 100).toFixed(0)}% overall{" "}
+          <strong>
+            {monthsSooner} month{monthsSooner === 1 ? "" : "s"} sooner
+          </strong>
+          {extraInterest > 0
+            ? ` for about ${formatCurrency(extraInterest, money)} more interest`
+            : ""}
+          .
+        </p>
+      )}
+    </div>
+  );
+}
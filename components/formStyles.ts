@@ -0,0 +1,28 @@
+import type { CSSProperties } from "react";
+
+// Shared look for the fields in Home's panels and editors
+
+export const inputStyle: CSSProperties = {
+  borderRadius: "8px",
+  border: "1px solid #374151",
+  background: "#020617",
+  padding: "6px 10px",
+  color: "#f9fafb",
+  fontSize: "12px",
+  minWidth: 0,
+};
+
+// fields wrapped in a label fill their grid cell
+export const fullWidthInputStyle: CSSProperties = {
+  ...inputStyle,
+  width: "100%",
+};
+
+// caption stacked above its field
+export const labelStyle: CSSProperties = {
+  display: "flex",
+  flexDirection: "column",
+  gap: "4px",
+  fontSize: "11px",
+  color: "#9ca3af",
+};
@@ -0,0 +1,153 @@
+// lib/balanceTransfer.ts
+
+import {
+  type Debt,
+  type PlanOptions,
+  type PlanResult,
+  type Strategy,
+  calculatePlan,
+  formatCurrency,
+} from "./debtPlan";
+import { parseNum, roundCents } from "./numbers";
+
+// ----------------------------------------------------
+// Types
+// ----------------------------------------------------
+
+export type BalanceTransferOffer = {
+  fromDebtId: number;
+  transferFeePct: number; // e.g. 3 for a 3% fee
+  promoApr: number; // usually 0
+  promoMonths: number;
+  postPromoApr: number; // destination card's regular APR
+  creditLimit: number; // destination limit (the fee counts against it)
+  minPayment: number; // destination card's monthly minimum
+};
+
+export type BalanceTransferScenario = {
+  amountTransferred: number;
+  transferFee: number;
+  asIs: PlanResult;
+  afterTransfer: PlanResult;
+  // total cost = interest + prepayment penalties (+ the transfer fee on the
+  // transfer path)
+  asIsCost: number;
+  afterTransferCost: number;
+  costDiff: number; // positive = transfer saves money
+  monthsDiff: number; // positive = transfer is faster
+};
+
+// ----------------------------------------------------
+// Helpers
+// ----------------------------------------------------
+
+// Moves as much of the source balance as the destination limit allows and
+// returns the debt list as it would look the day after the transfer.
+export function applyBalanceTransfer(
+  debts: Debt[],
+  offer: BalanceTransferOffer
+): { debts: Debt[]; amountTransferred: number; transferFee: number } | null {
+  const source = debts.find((d) => d.id === offer.fromDebtId);
+  if (!source) return null;
+
+  const sourceBalance = Math.max(0, parseNum(source.balance));
+  const feeRate = Math.max(0, offer.transferFeePct) / 100;
+  const limit = Math.max(0, offer.creditLimit);
+
+  const amountTransferred = roundCents(
+    Math.min(sourceBalance, limit / (1 + feeRate))
+  );
+  if (amountTransferred <= 0) return null;
+
+  const transferFee = roundCents(amountTransferred * feeRate);
+  const remaining = roundCents(sourceBalance - amountTransferred);
+
+  // the old card keeps a proportional share of its minimum
+  const sourceMin = parseNum(source.minPayment);
+  const remainingMin =
+    sourceBalance > 0 ? roundCents((sourceMin * remaining) / sourceBalance) : 0;
+
+  const nextId = Math.max(0, ...debts.map((d) => d.id)) + 1;
+
+  const updated: Debt[] = debts
+    .map((d) =>
+      d.id === source.id
+        ? {
+          ...d,
+          balance: remaining.toString(),
+          minPayment: remainingMin.toString(),
+        }
+        : d
+    )
+    .filter((d) => d.id !== source.id || remaining > 0);
+
+  updated.push({
+    id: nextId,
+    name: `Balance transfer (${source.name || `Card ${source.id}`})`,
+    balance: roundCents(amountTransferred + transferFee).toString(),
+    apr: offer.postPromoApr.toString(),
+    minPayment: offer.minPayment.toString(),
+    promoApr: offer.promoApr.toString(),
+    promoEndMonth: Math.max(0, Math.floor(offer.promoMonths)).toString(),
+    postPromoApr: offer.postPromoApr.toString(),
+  });
+
+  return { debts: updated, amountTransferred, transferFee };
+}
+
+// ----------------------------------------------------
+// Scenario
+// ----------------------------------------------------
+
+// "as is" vs "after transfer", both run through calculatePlan with the same
+// budget and strategy so the only difference is the transfer itself.
+export function simulateBalanceTransfer(
+  debts: Debt[],
+  monthlyBudget: number,
+  strategy: Strategy,
+  offer: BalanceTransferOffer,
+  options: PlanOptions = {}
+): BalanceTransferScenario | { error: string } {
+  const asIs = calculatePlan(
+    debts,
+    monthlyBudget.toString(),
+    strategy,
+    options
+  );
+  if ("error" in asIs) return asIs;
+
+  const transfer = applyBalanceTransfer(debts, offer);
+  if (!transfer) {
+    return {
+      error: `Pick a card with a balance and a destination credit limit above ${formatCurrency(
+        0,
+        options.money
+      )}.`,
+    };
+  }
+
+  const afterTransfer = calculatePlan(
+    transfer.debts,
+    monthlyBudget.toString(),
+    strategy,
+    options
+  );
+  if ("error" in afterTransfer) return afterTransfer;
+
+  const asIsCost = asIs.totalInterest + asIs.totalFees;
+  const afterTransferCost =
+    afterTransfer.totalInterest +
+    afterTransfer.totalFees +
+    transfer.transferFee;
+
+  return {
+    amountTransferred: transfer.amountTransferred,
+    transferFee: transfer.transferFee,
+    asIs,
+    afterTransfer,
+    asIsCost,
+    afterTransferCost,
+    costDiff: asIsCost - afterTransferCost,
+    monthsDiff: asIs.months - afterTransfer.months,
+  };
+}
@@ -0,0 +1,178 @@
+// lib/budgetSolver.ts
+
+import {
+  type Debt,
+  type PlanOptions,
+  type PlanResult,
+  type Strategy,
+  getStartingMinimum,
+  runPlanSafe,
+} from "./debtPlan";
+import { parseNum } from "./numbers";
+
+// ----------------------------------------------------
+// Types
+// ----------------------------------------------------
+
+export type BudgetGoal =
+  // last payment lands in this calendar month (or earlier)
+  | { kind: "debtFreeBy"; date: Date }
+  // total interest over the whole payoff at or below this amount
+  | { kind: "interestUnder"; amount: number }
+  // one card's balance reaches zero by this plan month
+  | { kind: "cardPaidBy"; debtId: number; month: number };
+
+export type BudgetSolution = {
+  budget: number; // smallest flat monthly budget that meets the goal
+  plan: PlanResult; // the plan at that budget
+};
+
+// ----------------------------------------------------
+// Helpers
+// ----------------------------------------------------
+
+// plan month a calendar date falls in (month 1 = the start month)
+export function planMonthForDate(startDate: Date, date: Date): number {
+  return (
+    (date.getFullYear() - startDate.getFullYear()) * 12 +
+    (date.getMonth() - startDate.getMonth()) +
+    1
+  );
+}
+
+// plan month a card's balance first reaches zero (0 = nothing owed)
+export function cardPayoffMonth(plan: PlanResult, debtId: number): number {
+  let owed = false;
+  for (const row of plan.schedule) {
+    const payment = row.payments.find((p) => p.debtId === debtId);
+    if (!payment) continue;
+    if (payment.balanceStart > 0) owed = true;
+    if (payment.balanceEnd <= 0) return owed ? row.month : 0;
+  }
+  return owed ? Infinity : 0;
+}
+
+function meetsGoal(
+  plan: PlanResult,
+  goal: BudgetGoal,
+  startDate: Date
+): boolean {
+  switch (goal.kind) {
+    case "debtFreeBy":
+      return plan.months <= planMonthForDate(startDate, goal.date);
+    case "interestUnder":
+      return plan.totalInterest <= goal.amount;
+    case "cardPaidBy":
+      return cardPayoffMonth(plan, goal.debtId) <= goal.month;
+    default:
+      return false;
+  }
+}
+
+// ----------------------------------------------------
+// Solver
+// ----------------------------------------------------
+
+// Binary search in whole cents for the smallest flat monthly budget whose
+// plan meets the goal. Assumes more money never finishes later or costs more
+// interest, so the first passing cent is the answer. Lump sums and the
+// strategy's order still apply; a budget timeline doesn't (the answer is a
+// single flat amount).
+export function solveBudget(
+  debts: Debt[],
+  strategy: Strategy,
+  goal: BudgetGoal,
+  options: PlanOptions = {}
+): BudgetSolution | { error: string } {
+  const active = debts.filter(
+    (d) => parseNum(d.balance) > 0 && getStartingMinimum(d) > 0
+  );
+  if (!active.length) {
+    return {
+      error: "Add at least one card with a balance and minimum payment.",
+    };
+  }
+
+  const startDate = options.startDate ?? new Date();
+  const flatOptions: PlanOptions = {
+    ...options,
+    startDate,
+    budgetTimeline: undefined,
+  };
+
+  if (
+    goal.kind === "debtFreeBy" &&
+    planMonthForDate(startDate, goal.date) < 1
+  ) {
+    return { error: "Pick a payoff date from this month onward." };
+  }
+  if (goal.kind === "cardPaidBy") {
+    if (!active.some((d) => d.id === goal.debtId)) {
+      return { error: "That card has nothing left to pay off." };
+    }
+    if (goal.month < 1) {
+      return { error: "Pick a payoff month of 1 or later." };
+    }
+  }
+
+  const planAt = (cents: number) =>
+    runPlanSafe(active, cents / 100, strategy, flatOptions);
+  const passes = (cents: number) => {
+    const plan = planAt(cents);
+    return plan != null && meetsGoal(plan, goal, startDate);
+  };
+
+  // lowest budget the engine accepts: this month's minimums
+  let lo = Math.ceil(
+    active.reduce((sum, d) => sum + getStartingMinimum(d), 0) * 100
+  );
+
+  // enough to clear everything in month 1, with room for a long cycle:
+  // the balances plus month 1's new card spending (carried spend lands on
+  // the balance, paid-in-full spend comes out of the budget either way)
+  // plus any prepayment penalty on paying a loan off early, and on top of
+  // that whatever an emergency fund sets aside before the debts see it
+  const monthOneSpend = (d: Debt) =>
+    d.kind === "installment" ? 0 : Math.max(0, parseNum(d.monthlySpend));
+  const penaltyFactor = (d: Debt) =>
+    d.kind === "installment"
+      ? 1 + Math.max(0, parseNum(d.prepaymentPenaltyPct)) / 100
+      : 1;
+  const totalOwed = active.reduce(
+    (sum, d) =>
+      sum + parseNum(d.balance) * penaltyFactor(d) + monthOneSpend(d),
+    0
+  );
+  const fundSetAside = Math.max(
+    0,
+    options.emergencyFund?.monthlyContribution ?? 0
+  );
+  const maxApr = Math.max(0, ...active.map((d) => parseNum(d.apr)));
+  let hi =
+    Math.ceil((totalOwed * (1 + maxApr / 100 / 6) + fundSetAside) * 100) +
+    100;
+  hi = Math.max(hi, lo);
+
+  if (!passes(hi)) {
+    return {
+      error:
+        "Even paying everything off this month wouldn't meet that goal. Try a later date or a higher amount.",
+    };
+  }
+
+  while (lo < hi) {
+    const mid = Math.floor((lo + hi) / 2);
+    if (passes(mid)) {
+      hi = mid;
+    } else {
+      lo = mid + 1;
+    }
+  }
+
+  const plan = planAt(hi);
+  if (!plan) {
+    return { error: "Couldn't build a plan for that goal." };
+  }
+
+  return { budget: hi / 100, plan };
+}
@@ -0,0 +1,187 @@
+// lib/consolidation.ts
+
+import {
+  type Debt,
+  type PlanOptions,
+  type PlanResult,
+  type Strategy,
+  amortizedPayment,
+  calculatePlan,
+} from "./debtPlan";
+import { parseNum, roundCents } from "./numbers";
+
+// ----------------------------------------------------
+// Types
+// ----------------------------------------------------
+
+export type ConsolidationLoanOffer = {
+  amount: number;
+  apr: number;
+  termMonths: number;
+  originationFeePct: number; // taken out of the proceeds, e.g. 5 for 5%
+  payOffDebtIds: number[];
+};
+
+export type ConsolidationScenario = {
+  loanAmount: number; // borrowed, after the cap (see applyConsolidationLoan)
+  loanPayment: number;
+  originationFee: number;
+  amountApplied: number; // proceeds that actually reached the cards
+  current: PlanResult;
+  consolidated: PlanResult;
+  // total cost = interest + prepayment penalties (+ the origination fee on
+  // the loan path)
+  currentCost: number;
+  consolidatedCost: number;
+  costDiff: number; // positive = loan saves money
+  monthsDiff: number; // positive = loan is faster
+};
+
+// ----------------------------------------------------
+// Helpers
+// ----------------------------------------------------
+
+// Replaces the chosen cards with a fixed-term loan. Net proceeds go to the
+// highest-APR picks first; a card the proceeds don't fully cover keeps the
+// rest of its balance and a proportional share of its minimum. The loan is
+// capped at what clears every pick after the fee: the plan has nowhere to
+// put leftover cash, so borrowing it would only add debt.
+export function applyConsolidationLoan(
+  debts: Debt[],
+  offer: ConsolidationLoanOffer
+): {
+  debts: Debt[];
+  loanAmount: number;
+  loanPayment: number;
+  originationFee: number;
+  amountApplied: number;
+} | null {
+  const termMonths = Math.max(0, Math.floor(offer.termMonths));
+
+  const picked = debts
+    .filter((d) => offer.payOffDebtIds.includes(d.id))
+    .sort((a, b) => parseNum(b.apr) - parseNum(a.apr));
+  if (!picked.length) return null;
+
+  const feeRate = Math.min(1, Math.max(0, offer.originationFeePct) / 100);
+  const pickedBalance = picked.reduce(
+    (sum, d) => sum + Math.max(0, parseNum(d.balance)),
+    0
+  );
+  const needed =
+    feeRate < 1 ? Math.ceil((pickedBalance / (1 - feeRate)) * 100) / 100 : 0;
+  const amount = Math.min(Math.max(0, offer.amount), needed);
+  if (amount <= 0 || termMonths <= 0) return null;
+
+  const originationFee = roundCents(amount * feeRate);
+  let proceeds = roundCents(amount - originationFee);
+  let amountApplied = 0;
+
+  const paidDown = new Map<number, Debt | null>();
+  for (const d of picked) {
+    const balance = Math.max(0, parseNum(d.balance));
+    const applied = Math.min(balance, proceeds);
+    proceeds = roundCents(proceeds - applied);
+    amountApplied = roundCents(amountApplied + applied);
+
+    const remaining = roundCents(balance - applied);
+    if (remaining <= 0) {
+      paidDown.set(d.id, null);
+      continue;
+    }
+
+    const remainingMin =
+      balance > 0 ? roundCents((parseNum(d.minPayment) * remaining) / balance) : 0;
+    paidDown.set(d.id, {
+      ...d,
+      balance: remaining.toString(),
+      minPayment: remainingMin.toString(),
+    });
+  }
+
+  const updated: Debt[] = [];
+  for (const d of debts) {
+    if (!paidDown.has(d.id)) {
+      updated.push(d);
+      continue;
+    }
+    const rest = paidDown.get(d.id);
+    if (rest) updated.push(rest);
+  }
+
+  const loanPayment = roundCents(
+    amortizedPayment(amount, Math.max(0, offer.apr), termMonths)
+  );
+
+  updated.push({
+    id: Math.max(0, ...debts.map((d) => d.id)) + 1,
+    name: "Consolidation loan",
+    kind: "installment",
+    balance: amount.toString(),
+    apr: Math.max(0, offer.apr).toString(),
+    minPayment: loanPayment.toString(),
+    termMonths: termMonths.toString(),
+  });
+
+  return {
+    debts: updated,
+    loanAmount: amount,
+    loanPayment,
+    originationFee,
+    amountApplied,
+  };
+}
+
+// ----------------------------------------------------
+// Scenario
+// ----------------------------------------------------
+
+// Current plan vs the plan with the loan, same budget and strategy.
+export function compareConsolidation(
+  debts: Debt[],
+  monthlyBudget: number,
+  strategy: Strategy,
+  offer: ConsolidationLoanOffer,
+  options: PlanOptions = {}
+): ConsolidationScenario | { error: string } {
+  const current = calculatePlan(
+    debts,
+    monthlyBudget.toString(),
+    strategy,
+    options
+  );
+  if ("error" in current) return current;
+
+  const loan = applyConsolidationLoan(debts, offer);
+  if (!loan) {
+    return {
+      error:
+        "Enter a loan amount and term, and pick at least one card for it to pay off.",
+    };
+  }
+
+  const consolidated = calculatePlan(
+    loan.debts,
+    monthlyBudget.toString(),
+    strategy,
+    options
+  );
+  if ("error" in consolidated) return consolidated;
+
+  const currentCost = current.totalInterest + current.totalFees;
+  const consolidatedCost =
+    consolidated.totalInterest + consolidated.totalFees + loan.originationFee;
+
+  return {
+    loanAmount: loan.loanAmount,
+    loanPayment: loan.loanPayment,
+    originationFee: loan.originationFee,
+    amountApplied: loan.amountApplied,
+    current,
+    consolidated,
+    currentCost,
+    consolidatedCost,
+    costDiff: currentCost - consolidatedCost,
+    monthsDiff: current.months - consolidated.months,
+  };
+}
@@ -1,10 +1,35 @@
 // lib/debtPlan.ts
 
+import { parseNum } from "./numbers";
+
 // ----------------------------------------------------
 // Types
 // ----------------------------------------------------
 
-export type Strategy = "warrior" | "rebel" | "wizard";
+export type Strategy =
+  | "warrior"
+  | "rebel"
+  | "wizard"
+  | "custom"
+  | "guardian";
+
+// how a card's monthly minimum is worked out:
+// - fixed:               minPayment every month
+// - percent:             minPaymentPercent of the balance, floored at minPayment
+// - percentPlusInterest: percent of the balance + the month's interest, floored
+export type MinPaymentRule = "fixed" | "percent" | "percentPlusInterest";
+
+// - revolving:   credit cards and lines of credit (the default)
+// - installment: fixed-term loans (auto, personal, student) with a level
+//                amortizing payment; extra payments shorten the term
+export type DebtKind = "revolving" | "installment";
+
+// new purchases on a card during the payoff:
+// - carried:    they land on the balance and accrue interest (the default;
+//               cards carrying a balance usually lose the grace period)
+// - paidInFull: the statement's new charges are paid off every month out of
+//               the budget, so they never touch the balance
+export type SpendMode = "carried" | "paidInFull";
 
 export type Debt = {
   id: number;
@@ -12,14 +37,211 @@ export type Debt = {
   // stored as strings while typing, converted to numbers for math
   balance: string;
   apr: string;
-  minPayment: string;
+  minPayment: string; // fixed amount, or the $ floor for percentage rules
+  minPaymentRule?: MinPaymentRule; // defaults to "fixed"
+  minPaymentPercent?: string;
+  // optional intro period: promoApr applies through promoEndMonth (plan
+  // month, 1-based), then postPromoApr (falls back to apr when blank)
+  promoApr?: string;
+  promoEndMonth?: string;
+  postPromoApr?: string;
+  kind?: DebtKind; // defaults to "revolving"
+  // installment only: months left on the loan (sets the payment when given)
+  // and a prepayment penalty charged on every dollar paid ahead of schedule
+  termMonths?: string;
+  prepaymentPenaltyPct?: string;
+  // revolving only: expected new charges per month
+  monthlySpend?: string;
+  creditLimit?: string; // revolving only: for utilization (blank = unknown)
+  spendMode?: SpendMode;
+  // day of the month the payment is due (1-31, clamped to short months);
+  // daily accrual modes post this card's payment that day
+  dueDay?: string;
+  // interest can be deducted from taxable income (student loans, mortgages);
+  // see PlanOptions.marginalTaxRate
+  taxDeductible?: boolean;
+};
+
+// one card's slice of a schedule month
+export type MonthlyDebtPayment = {
+  debtId: number;
+  name: string;
+  dueDate: string; // ISO yyyy-mm-dd
+  balanceStart: number; // includes new charges carried this month
+  newCharges: number;
+  apr: number; // rate charged this month (promo / penalty aware)
+  interestCharged: number;
+  minPayment: number;
+  extraPayment: number;
+  totalPayment: number;
+  // payment minus interest (and any prepayment penalty); negative when the
+  // payment doesn't cover the interest and the difference is capitalized
+  principalPaid: number;
+  // prepayment penalty taken out of the payment, or a late fee added to the
+  // balance
+  feeCharged: number;
+  missed: boolean; // paid less than the minimum due
+  balanceEnd: number;
 };
 
 export type ScheduleRow = {
   month: number;
+  date: string; // ISO yyyy-mm-dd, first day of the calendar month
+  totalBalanceStart: number;
   totalBalanceEnd: number;
+  newCharges: number; // new card spending this month (carried or paid off)
+  totalPayment: number;
   interestPaid: number;
   principalPaid: number;
+  feesPaid: number;
+  lumpSum: number; // one-off payments that landed this month (0 if none)
+  // emergency fund (all 0 without options.emergencyFund)
+  fundContribution: number; // budget set aside this month
+  fundDraw: number; // taken out this month
+  fundBalanceEnd: number;
+  payments: MonthlyDebtPayment[];
+};
+
+// how interest builds up inside each billing cycle:
+// - monthly:             balance * APR / 12, payment timing ignored
+// - dailyCompound:       APR / 365 compounded every day of the real month
+// - averageDailyBalance: APR / 365 * days on the average daily balance
+export type InterestAccrual =
+  | "monthly"
+  | "dailyCompound"
+  | "averageDailyBalance";
+
+// how each cycle's interest is rounded to a whole cent:
+// - round:   half a cent and up rounds up (the default)
+// - floor:   fractions of a cent are dropped
+// - bankers: half a cent rounds to the even cent, other fractions as usual
+export type InterestRounding = "round" | "floor" | "bankers";
+
+// one-off payment (tax refund, bonus, ...) landing in a given plan month
+export type LumpSum = {
+  month: number; // 1-based plan month
+  amount: number;
+  debtId?: number; // specific card; omit to follow the strategy's order
+  label?: string;
+};
+
+// budget change that applies from a given plan month until the next one
+// (a raise in month 6, a tight holiday season, daycare ending, ...)
+export type BudgetChange = {
+  fromMonth: number; // 1-based plan month
+  amount: number; // total monthly budget from then on
+  label?: string;
+};
+
+// a card's regular rate moving from a given plan month on (an issuer
+// repricing, a rate negotiated down, ...); an intro rate still applies
+// until its promo ends, the new rate after it
+export type AprChange = {
+  debtId: number;
+  fromMonth: number; // 1-based plan month
+  apr: number;
+};
+
+// stress test: pay less than the minimum (0 = skip) on a card in a month
+export type MissedPayment = {
+  month: number; // 1-based plan month
+  debtId: number;
+  amountPaid?: number; // defaults to 0
+};
+
+// what the issuer does about it
+export type LatePaymentTerms = {
+  lateFee: number; // per missed minimum, capped at the minimum due
+  penaltyApr: number; // cards only; loans just take the fee
+  // missed minimums in a row before the penalty APR kicks in (2 ≈ 60 days)
+  penaltyAfterMissed: number;
+  // on-time months in a row before the regular APR comes back
+  penaltyCureMonths: number;
+};
+
+export const DEFAULT_LATE_TERMS: LatePaymentTerms = {
+  lateFee: 40,
+  penaltyApr: 29.99,
+  penaltyAfterMissed: 2,
+  penaltyCureMonths: 6,
+};
+
+// emergency fund built from the budget before (or alongside) the payoff:
+// - fillFirst: part of the budget tops the fund up to its target, then the
+//              whole budget goes to debt for good (draws aren't refilled)
+// - refill:    the same, but contributions resume whenever a draw leaves
+//              the fund below its target
+export type EmergencyFundMode = "fillFirst" | "refill";
+
+// money taken out of the fund in a given plan month (car repair, vet bill…)
+export type FundDraw = {
+  month: number; // 1-based plan month
+  amount: number;
+  label?: string;
+};
+
+export type EmergencyFundPlan = {
+  mode: EmergencyFundMode;
+  target: number;
+  startingBalance?: number; // defaults to 0
+  // most of the budget set aside in a month while the fund is below target
+  // (only what's left after the minimums)
+  monthlyContribution: number;
+  draws?: FundDraw[];
+};
+
+// how money (and dates) are shown: ISO 4217 currency + BCP 47 locale
+export type MoneyFormat = {
+  currency: string;
+  locale: string;
+};
+
+export const DEFAULT_MONEY_FORMAT: MoneyFormat = {
+  currency: "USD",
+  locale: "en-US",
+};
+
+// the settings offered in the app
+export const MONEY_FORMAT_PRESETS: { label: string; money: MoneyFormat }[] = [
+  { label: "US dollar", money: { currency: "USD", locale: "en-US" } },
+  { label: "Canadian dollar", money: { currency: "CAD", locale: "en-CA" } },
+  {
+    label: "Dollar canadien (français)",
+    money: { currency: "CAD", locale: "fr-CA" },
+  },
+  { label: "Pound sterling (UK)", money: { currency: "GBP", locale: "en-GB" } },
+  { label: "Euro (Ireland)", money: { currency: "EUR", locale: "en-IE" } },
+  { label: "Euro (Deutschland)", money: { currency: "EUR", locale: "de-DE" } },
+  { label: "Euro (France)", money: { currency: "EUR", locale: "fr-FR" } },
+  { label: "Euro (España)", money: { currency: "EUR", locale: "es-ES" } },
+  { label: "Euro (Nederland)", money: { currency: "EUR", locale: "nl-NL" } },
+];
+
+export type PlanOptions = {
+  // pay exactly each month's minimums (the budget is ignored)
+  minimumsOnly?: boolean;
+  interestAccrual?: InterestAccrual; // defaults to "monthly"
+  interestRounding?: InterestRounding; // defaults to "round"
+  // day of the cycle payments post on (daily modes only; default = last day);
+  // a card's own dueDay wins
+  paymentDay?: number;
+  // first billing cycle (plan month 1); dates every schedule row, and daily
+  // modes use the real length of each month
+  startDate?: Date;
+  lumpSums?: LumpSum[];
+  // piecewise budget; months before the first change use monthlyBudgetStr
+  budgetTimeline?: BudgetChange[];
+  // "custom" strategy: debt ids, first = paid first. Cards left out follow
+  // the listed ones, highest APR first (so [id] just pins one card first).
+  customOrder?: number[];
+  aprChanges?: AprChange[];
+  missedPayments?: MissedPayment[];
+  lateTerms?: LatePaymentTerms; // defaults to DEFAULT_LATE_TERMS
+  emergencyFund?: EmergencyFundPlan;
+  // percent; interest on tax-deductible debts really costs (1 - rate) of
+  // what's charged, so rankings by APR use the after-tax rate
+  marginalTaxRate?: number;
+  money?: MoneyFormat; // amounts quoted in error messages
 };
 
 export type PlanResult = {
@@ -27,6 +249,22 @@ export type PlanResult = {
   totalInterest: number;
   strategyUsed: Strategy;
   schedule: ScheduleRow[];
+  totalFees: number; // prepayment penalties + late fees over the whole plan
+  // totalInterest minus the tax saved on deductible debts' interest (equal
+  // to it without a marginal tax rate)
+  afterTaxInterest: number;
+  // wizard only: after-tax interest + fees saved vs plain avalanche, i.e.
+  // the plan "rebel" gives for the same inputs (its promo-aware ranking
+  // included, see rankingApr)
+  savingsVsAvalanche?: number;
+};
+
+// when a card's balance first hits zero
+export type DebtPayoffDate = {
+  debtId: number;
+  name: string;
+  month: number;
+  date: string; // ISO yyyy-mm-dd, the card's due date that month
 };
 
 // ----------------------------------------------------
@@ -41,6 +279,12 @@ const MONTHS_IN_YEAR = 12;
 const MAX_LIFETIMES = 1000;
 const MAX_MONTHS = LIFETIME_YEARS * MONTHS_IN_YEAR * MAX_LIFETIMES;
 
+const DAYS_IN_YEAR = 365;
+
+// utilization levels credit scores care about, as a share of the limit;
+// "guardian" works a card under each in turn
+export const UTILIZATION_THRESHOLDS = [0.3, 0.1];
+
 // ----------------------------------------------------
 // Formatting helpers
 // ----------------------------------------------------
@@ -48,183 +292,783 @@ const MAX_MONTHS = LIFETIME_YEARS * MONTHS_IN_YEAR * MAX_LIFETIMES;
 export function getStrategyLabel(strategy: Strategy): string {
   if (strategy === "warrior") return "The Warrior";
   if (strategy === "rebel") return "The Rebel";
+  if (strategy === "custom") return "Your Order";
+  if (strategy === "guardian") return "The Guardian";
   return "The Wizard";
 }
 
-export function formatCurrency(n: number): string {
-  return n.toLocaleString("en-US", {
+export function formatCurrency(
+  n: number,
+  money: MoneyFormat = DEFAULT_MONEY_FORMAT
+): string {
+  return n.toLocaleString(money.locale, {
     style: "currency",
-    currency: "USD",
+    currency: money.currency,
     maximumFractionDigits: 2,
   });
 }
 
+// "$", "CA$", "£", "€" … for input labels
+export function currencySymbol(
+  money: MoneyFormat = DEFAULT_MONEY_FORMAT
+): string {
+  const part = new Intl.NumberFormat(money.locale, {
+    style: "currency",
+    currency: money.currency,
+  })
+    .formatToParts(0)
+    .find((p) => p.type === "currency");
+  return part?.value ?? money.currency;
+}
+
+// ISO date -> "March 2028" (or "Mar 2028" when short)
+export function formatPlanDate(
+  isoDate: string,
+  short = false,
+  locale = DEFAULT_MONEY_FORMAT.locale
+): string {
+  const date = parsePlanDate(isoDate);
+  if (!date) return "—";
+  return date.toLocaleDateString(locale, {
+    month: short ? "short" : "long",
+    year: "numeric",
+  });
+}
+
+// ISO date -> "Mar 15, 2028" (a card's due date)
+export function formatDueDate(
+  isoDate: string,
+  locale = DEFAULT_MONEY_FORMAT.locale
+): string {
+  const date = parsePlanDate(isoDate);
+  if (!date) return "—";
+  return date.toLocaleDateString(locale, {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+// yyyy-mm(-dd) -> local Date; split by hand so no timezone shifts the day
+export function parsePlanDate(isoDate: string): Date | null {
+  const [y, m, d] = isoDate.split("-").map((part) => parseInt(part, 10));
+  if (!Number.isFinite(y) || !Number.isFinite(m)) return null;
+  return new Date(y, m - 1, Number.isFinite(d) ? d : 1);
+}
+
 // ----------------------------------------------------
 // Internal helpers
 // ----------------------------------------------------
 
-function parseNum(value: string): number {
-  const n = parseFloat(value || "0");
-  return Number.isFinite(n) ? n : 0;
+// The engine works in integer cents; dollars only at the edges
+function toCents(dollars: number): number {
+  return Math.round(dollars * 100);
+}
+
+function fromCents(cents: number): number {
+  return cents / 100;
 }
 
+// float noise allowance when a value should sit exactly on a cent boundary
+const CENT_EPSILON = 1e-9;
+
+// fractional cents of interest -> whole cents under the chosen rule
+function roundInterest(cents: number, rule: InterestRounding): number {
+  switch (rule) {
+    case "floor":
+      return Math.floor(cents + CENT_EPSILON);
+    case "bankers": {
+      const whole = Math.floor(cents);
+      if (Math.abs(cents - whole - 0.5) < CENT_EPSILON) {
+        return whole % 2 === 0 ? whole : whole + 1;
+      }
+      return Math.round(cents);
+    }
+    default:
+      return Math.round(cents + CENT_EPSILON);
+  }
+}
+
+// money fields (balance, minPayment, monthlySpend) are in cents
 type NumericDebt = {
   id: number;
   name: string;
+  kind: DebtKind;
   balance: number;
   apr: number;
   minPayment: number;
+  minPaymentRule: MinPaymentRule;
+  minPaymentPercent: number;
+  promoApr: number;
+  promoEndMonth: number; // 0 = no promo
+  postPromoApr: number;
+  // regular-rate changes, earliest first (the latest one started wins)
+  aprChanges: { fromMonth: number; apr: number }[];
+  prepaymentPenalty: number; // fraction of each prepaid dollar, e.g. 0.02
+  monthlySpend: number;
+  spendPaidInFull: boolean;
+  dueDay: number; // 0 = follow options.paymentDay
+  taxDeductible: boolean;
+  creditLimit: number; // 0 = unknown (loans always)
 };
 
-function cloneNumericDebts(input: Debt[]): NumericDebt[] {
-  return input
-    .map((d) => ({
-      id: d.id,
-      name: d.name || `Card ${d.id}`,
-      balance: Math.max(0, parseNum(d.balance)),
-      apr: Math.max(0, parseNum(d.apr)),
-      minPayment: Math.max(0, parseNum(d.minPayment)),
+function toNumericDebt(d: Debt, changes: AprChange[] = []): NumericDebt {
+  const apr = Math.max(0, parseNum(d.apr));
+  const aprChanges = changes
+    .filter((c) => c.debtId === d.id)
+    .map((c) => ({
+      fromMonth: Math.max(1, Math.floor(c.fromMonth)),
+      apr: Math.max(0, c.apr),
     }))
-    .filter((d) => d.balance > 0 && d.minPayment > 0);
+    .sort((a, b) => a.fromMonth - b.fromMonth);
+  const balance = toCents(Math.max(0, parseNum(d.balance)));
+  const dueDay = Math.min(
+    31,
+    Math.max(0, Math.floor(parseNum(d.dueDay ?? "")))
+  );
+
+  if (d.kind === "installment") {
+    // level payment over the remaining term; no promos or % minimums
+    const termMonths = Math.floor(parseNum(d.termMonths ?? ""));
+    return {
+      id: d.id,
+      name: d.name || `Loan ${d.id}`,
+      kind: "installment",
+      balance,
+      apr,
+      minPayment:
+        termMonths > 0
+          ? toCents(amortizedPayment(fromCents(balance), apr, termMonths))
+          : toCents(Math.max(0, parseNum(d.minPayment))),
+      minPaymentRule: "fixed",
+      minPaymentPercent: 0,
+      promoApr: 0,
+      promoEndMonth: 0,
+      postPromoApr: apr,
+      aprChanges,
+      prepaymentPenalty:
+        Math.max(0, parseNum(d.prepaymentPenaltyPct ?? "")) / 100,
+      monthlySpend: 0,
+      spendPaidInFull: false,
+      dueDay,
+      taxDeductible: d.taxDeductible ?? false,
+      creditLimit: 0,
+    };
+  }
+
+  const promoEndMonth = Math.max(0, Math.floor(parseNum(d.promoEndMonth ?? "")));
+  const hasPostPromo = (d.postPromoApr ?? "").trim() !== "";
+
+  return {
+    id: d.id,
+    name: d.name || `Card ${d.id}`,
+    kind: "revolving",
+    balance,
+    apr,
+    minPayment: toCents(Math.max(0, parseNum(d.minPayment))),
+    minPaymentRule: d.minPaymentRule ?? "fixed",
+    minPaymentPercent: Math.max(0, parseNum(d.minPaymentPercent ?? "")),
+    promoApr: Math.max(0, parseNum(d.promoApr ?? "")),
+    promoEndMonth,
+    postPromoApr: hasPostPromo
+      ? Math.max(0, parseNum(d.postPromoApr ?? ""))
+      : apr,
+    aprChanges,
+    prepaymentPenalty: 0,
+    monthlySpend: toCents(Math.max(0, parseNum(d.monthlySpend ?? ""))),
+    spendPaidInFull: d.spendMode === "paidInFull",
+    dueDay,
+    taxDeductible: d.taxDeductible ?? false,
+    creditLimit: toCents(Math.max(0, parseNum(d.creditLimit ?? ""))),
+  };
+}
+
+function cloneNumericDebts(
+  input: Debt[],
+  aprChanges: AprChange[] = []
+): NumericDebt[] {
+  return input
+    .map((d) => toNumericDebt(d, aprChanges))
+    .filter((d) => d.balance > 0 && hasMinimum(d));
+}
+
+function hasMinimum(d: NumericDebt): boolean {
+  if (d.minPaymentRule === "fixed") return d.minPayment > 0;
+  return d.minPayment > 0 || d.minPaymentPercent > 0;
+}
+
+// Issuer-style minimum for this month, before capping at the payoff amount
+// (cents in, cents out)
+function minimumDue(d: NumericDebt, interest: number): number {
+  const pct = Math.round((d.minPaymentPercent / 100) * d.balance);
+  switch (d.minPaymentRule) {
+    case "percent":
+      return Math.max(d.minPayment, pct);
+    case "percentPlusInterest":
+      return Math.max(d.minPayment, pct + interest);
+    default:
+      return d.minPayment;
+  }
+}
+
+function aprForMonth(d: NumericDebt, month: number): number {
+  if (d.promoEndMonth > 0 && month <= d.promoEndMonth) return d.promoApr;
+  let apr = d.promoEndMonth > 0 ? d.postPromoApr : d.apr;
+  for (const change of d.aprChanges) {
+    if (change.fromMonth <= month) apr = change.apr;
+  }
+  return apr;
+}
+
+// budget in effect for a plan month: the latest change at or before it
+// (any unit, as long as the base and the timeline agree)
+export function budgetForMonth(
+  baseBudget: number,
+  timeline: BudgetChange[],
+  month: number
+): number {
+  let budget = baseBudget;
+  let latest = 0;
+  for (const change of timeline) {
+    if (change.fromMonth <= month && change.fromMonth >= latest) {
+      budget = change.amount;
+      latest = change.fromMonth;
+    }
+  }
+  return budget;
+}
+
+// Length of plan month `month` (1-based) counted from the start date
+function cycleDays(startDate: Date, month: number): number {
+  const monthIndex = startDate.getMonth() + month - 1;
+  return new Date(startDate.getFullYear(), monthIndex + 1, 0).getDate();
+}
+
+// ISO date of `day` in plan month `month`, clamped to the month's length
+function planDate(startDate: Date, month: number, day: number): string {
+  const date = new Date(
+    startDate.getFullYear(),
+    startDate.getMonth() + month - 1,
+    1
+  );
+  const clamped = Math.min(Math.max(1, day), cycleDays(startDate, month));
+  const mm = String(date.getMonth() + 1).padStart(2, "0");
+  const dd = String(clamped).padStart(2, "0");
+  return `${date.getFullYear()}-${mm}-${dd}`;
+}
+
+// One billing cycle as a linear map: paying X on the payment day leaves
+//   endBalance = balance * grow - X * payGrow
+// so the payoff amount is balance * grow / payGrow and the interest charged
+// is balance * (grow - 1) - X * (payGrow - 1). Paying earlier in the cycle
+// raises payGrow, which is exactly the interest the early payment avoids.
+type CycleFactors = { grow: number; payGrow: number };
+
+function cycleFactors(
+  apr: number,
+  accrual: InterestAccrual,
+  days: number,
+  paymentDay: number
+): CycleFactors {
+  if (accrual === "monthly") {
+    return { grow: 1 + apr / 100 / 12, payGrow: 1 };
+  }
+
+  const r = apr / 100 / DAYS_IN_YEAR;
+  const day = Math.min(Math.max(1, Math.floor(paymentDay)), days);
+  const daysAfterPayment = days - day + 1;
+
+  if (accrual === "dailyCompound") {
+    return {
+      grow: Math.pow(1 + r, days),
+      payGrow: Math.pow(1 + r, daysAfterPayment),
+    };
+  }
+
+  // average daily balance: simple daily interest, no compounding in-cycle
+  return { grow: 1 + r * days, payGrow: 1 + r * daysAfterPayment };
+}
+
+// Whole-cent interest for the cycle when `paid` cents post on the payment day
+function cycleInterest(
+  balance: number,
+  paid: number,
+  f: CycleFactors,
+  rule: InterestRounding
+): number {
+  return Math.max(
+    0,
+    roundInterest(balance * (f.grow - 1) - paid * (f.payGrow - 1), rule)
+  );
+}
+
+// Cents that clear the card this cycle: X = balance + interest(X). Interest
+// barely moves with X, so start from the unrounded payoff and settle in a
+// step or two; a rounding tie resolves upward (step 4 trims the extra cent).
+function payoffAmount(
+  balance: number,
+  f: CycleFactors,
+  rule: InterestRounding
+): number {
+  let x = Math.ceil((balance * f.grow) / f.payGrow - CENT_EPSILON);
+  for (let step = 0; step < 3; step++) {
+    const next = balance + cycleInterest(balance, x, f, rule);
+    if (next === x) return x;
+    x = next;
+  }
+  return Math.max(x, balance + cycleInterest(balance, x, f, rule));
+}
+
+// APR a strategy should rank this card by in `month`. A promo balance is
+// ranked at the rate it is about to jump to only when starting on it now
+// clears it before expiry with room to spare but waiting another month can't
+// (given this month's surplus), so avalanche-style strategies get ahead of
+// the expiry. Otherwise it keeps its promo rate: a balance too big to clear
+// in time (or one that needs every extra dollar until expiry) beats no
+// deadline by being paid early, so costlier cards come first.
+function rankingApr(
+  d: NumericDebt,
+  month: number,
+  minDue: number,
+  surplus: number
+): number {
+  const current = aprForMonth(d, month);
+  if (d.promoEndMonth <= 0 || month > d.promoEndMonth) return current;
+
+  const promoMonthsLeft = d.promoEndMonth - month + 1;
+  const clearableNow = (minDue + surplus) * promoMonthsLeft;
+  const clearableIfWaiting =
+    minDue + (minDue + surplus) * (promoMonthsLeft - 1);
+  if (clearableNow <= d.balance || clearableIfWaiting >= d.balance) {
+    return current;
+  }
+
+  return Math.max(current, aprForMonth(d, d.promoEndMonth + 1));
+}
+
+// ----------------------------------------------------
+// Payoff priority
+// ----------------------------------------------------
+
+type PriorityItem = {
+  i: number; // index into the working debts
+  id: number;
+  balance: number;
+  apr: number; // ranking APR (see rankingApr)
+};
+
+// Orders cards for this month's extra money, first = gets paid first.
+// "wizard" is never sorted here: the optimizer hands its month's order in
+// as a custom one (see optimizeWizard).
+function sortByPriority(
+  items: PriorityItem[],
+  strategy: Strategy,
+  customOrder: number[]
+): PriorityItem[] {
+  const rankOf = (id: number) => {
+    const rank = customOrder.indexOf(id);
+    return rank === -1 ? customOrder.length : rank;
+  };
+
+  return [...items].sort((a, b) => {
+    switch (strategy) {
+      case "warrior":
+        // smallest balance first (snowball)
+        if (a.balance !== b.balance) return a.balance - b.balance;
+        return b.apr - a.apr;
+      case "rebel":
+        // highest APR first (avalanche)
+        if (b.apr !== a.apr) return b.apr - a.apr;
+        return b.balance - a.balance;
+      case "custom":
+        // the user's order, unlisted cards after it by APR
+        if (rankOf(a.id) !== rankOf(b.id)) return rankOf(a.id) - rankOf(b.id);
+        return b.apr - a.apr;
+      default:
+        return 0;
+    }
+  });
 }
 
 // ----------------------------------------------------
-// Core payoff math (matches demo engine behaviour)
+// Core payoff math (single engine for Home, Your Plan and Summary)
 // ----------------------------------------------------
 
+// from fromMonth on (until the next segment) extra money follows `order`;
+// cards it leaves out follow avalanche
+type OrderSegment = { fromMonth: number; order: number[] };
+
 // strategy mapping here:
 // - warrior: smallest balance first (snowball / motivation)
 // - rebel:   highest APR first (avalanche / interest savings)
-// - wizard:  interest-optimized (targets biggest interest cost)
+// - wizard:  searched for the lowest total interest (see optimizeWizard)
+// - custom:  the user's own order (options.customOrder)
+// - guardian: worst-utilized card under 30% of its limit first, then the
+//             next; then each under 10%; then avalanche (credit score first)
+// rebel and wizard see promo expiries coming (see rankingApr)
 export function calculatePlan(
   debtsInput: Debt[],
   monthlyBudgetStr: string,
-  strategy: Strategy
+  strategy: Strategy,
+  options: PlanOptions = {}
+): PlanResult | { error: string } {
+  if (strategy === "wizard" && !options.minimumsOnly) {
+    return optimizeWizard(debtsInput, monthlyBudgetStr, options);
+  }
+  return simulatePlan(debtsInput, monthlyBudgetStr, strategy, options, []);
+}
+
+// Month-by-month payoff simulation. `segments` only matter for "wizard".
+// Money moves in integer cents and each cycle's interest is rounded to a
+// cent (options.interestRounding), so every payment row satisfies
+//   balanceEnd = balanceStart + interest + late fee - (payment - prepay fee)
+// exactly, and the plan totals are exact sums of the rows.
+function simulatePlan(
+  debtsInput: Debt[],
+  monthlyBudgetStr: string,
+  strategy: Strategy,
+  options: PlanOptions,
+  segments: OrderSegment[]
 ): PlanResult | { error: string } {
+  const minimumsOnly = options.minimumsOnly ?? false;
+  const accrual = options.interestAccrual ?? "monthly";
+  const rounding = options.interestRounding ?? "round";
+  const startDate = options.startDate ?? new Date();
+  const lumpSums = options.lumpSums ?? [];
+  const budgetTimeline = options.budgetTimeline ?? [];
+  const customOrder = options.customOrder ?? [];
+  const missedPayments = options.missedPayments ?? [];
+  const lateTerms = options.lateTerms ?? DEFAULT_LATE_TERMS;
+  const taxRate =
+    Math.min(100, Math.max(0, options.marginalTaxRate ?? 0)) / 100;
   const monthlyBudget = parseNum(monthlyBudgetStr);
-  if (!Number.isFinite(monthlyBudget) || monthlyBudget <= 0) {
+  if (
+    !minimumsOnly &&
+    (!Number.isFinite(monthlyBudget) || monthlyBudget <= 0)
+  ) {
     return { error: "Please enter a positive monthly budget." };
   }
+  if (
+    !minimumsOnly &&
+    budgetTimeline.some((c) => !Number.isFinite(c.amount) || c.amount <= 0)
+  ) {
+    return { error: "Every budget change needs a positive amount." };
+  }
+  const budgetCents = toCents(monthlyBudget);
+  const timelineCents = budgetTimeline.map((c) => ({
+    ...c,
+    amount: toCents(c.amount),
+  }));
+  const lateFeeCents = toCents(Math.max(0, lateTerms.lateFee));
+  const fund = options.emergencyFund;
+  const fundDraws = fund?.draws ?? [];
+  const fundTargetCents = toCents(Math.max(0, fund?.target ?? 0));
+  const fundContributionCents = toCents(
+    Math.max(0, fund?.monthlyContribution ?? 0)
+  );
 
-  const debts = cloneNumericDebts(debtsInput);
+  const debts = cloneNumericDebts(debtsInput, options.aprChanges);
   if (debts.length === 0) {
     return {
       error: "Add at least one card with a balance and minimum payment.",
     };
   }
 
-  const totalMin = debts.reduce((sum, d) => sum + d.minPayment, 0);
-  if (totalMin > monthlyBudget + 1e-6) {
+  // month 1 minimums; later months are recomputed as balances change
+  const totalMin = debts.reduce(
+    (sum, d) =>
+      sum +
+      minimumDue(
+        d,
+        roundInterest((d.balance * aprForMonth(d, 1)) / 100 / 12, rounding)
+      ),
+    0
+  );
+  if (
+    !minimumsOnly &&
+    totalMin > budgetForMonth(budgetCents, timelineCents, 1)
+  ) {
     return {
       error:
         "Your total minimum payments are higher than your monthly budget. Increase your budget or adjust card data.",
     };
   }
 
+  const paidInFullSpend = debts.reduce(
+    (sum, d) => sum + (d.spendPaidInFull ? d.monthlySpend : 0),
+    0
+  );
+  if (
+    !minimumsOnly &&
+    totalMin + paidInFullSpend > budgetForMonth(budgetCents, timelineCents, 1)
+  ) {
+    return {
+      error:
+        "Your minimum payments plus the new charges you pay in full each month are higher than your monthly budget.",
+    };
+  }
+
+  // after this month nothing scheduled changes the picture any more
+  const lastScheduledChange = Math.max(
+    0,
+    ...debts.map((d) => d.promoEndMonth),
+    ...debts.flatMap((d) => d.aprChanges.map((c) => c.fromMonth)),
+    ...budgetTimeline.map((c) => c.fromMonth),
+    ...lumpSums.map((l) => l.month),
+    ...missedPayments.map((m) => m.month),
+    ...fundDraws.map((w) => w.month)
+  );
+  let stallStreak = 0;
+  let previousBalanceEnd = debts.reduce((sum, d) => sum + d.balance, 0);
+
   const workingDebts: NumericDebt[] = debts.map((d) => ({ ...d }));
 
+  // late-payment state carried from month to month
+  const pastDueByIndex: number[] = new Array(debts.length).fill(0);
+  const missedStreakByIndex: number[] = new Array(debts.length).fill(0);
+  const onTimeStreakByIndex: number[] = new Array(debts.length).fill(0);
+  const penaltyByIndex: boolean[] = new Array(debts.length).fill(false);
+
+  // emergency fund carried from month to month
+  let fundBalance = toCents(Math.max(0, fund?.startingBalance ?? 0));
+  let fundFilled = fundBalance >= fundTargetCents;
+
   const schedule: ScheduleRow[] = [];
   let months = 0;
   let totalInterestAllTime = 0;
+  let deductibleInterestAllTime = 0;
+  let totalFeesAllTime = 0;
 
   // Safety cap only: effectively unlimited for real-world numbers
   const maxMonths = MAX_MONTHS;
 
-  while (months < maxMonths && workingDebts.some((d) => d.balance > 0.01)) {
+  while (months < maxMonths && workingDebts.some((d) => d.balance > 0)) {
     months++;
 
-    const interestByIndex: number[] = new Array(workingDebts.length).fill(0);
+    const factorsByIndex: CycleFactors[] = new Array(workingDebts.length);
+    const payoffByIndex: number[] = new Array(workingDebts.length).fill(0);
     const minDueByIndex: number[] = new Array(workingDebts.length).fill(0);
     const totalPaymentByIndex: number[] = new Array(workingDebts.length).fill(
       0
     );
     const extraByIndex: number[] = new Array(workingDebts.length).fill(0);
+    const chargesByIndex: number[] = new Array(workingDebts.length).fill(0);
+    const aprByIndex: number[] = new Array(workingDebts.length).fill(0);
+    const missedByIndex: boolean[] = new Array(workingDebts.length).fill(false);
+
+    // 0) New charges: carried ones land on the balance before interest; paid-
+    // in-full ones (and any spending on a card already cleared) take a bite
+    // out of the budget instead
+    let spendFromBudget = 0;
+    let newChargesThisMonth = 0;
+    workingDebts.forEach((d, i) => {
+      if (d.monthlySpend <= 0) return;
+      newChargesThisMonth += d.monthlySpend;
+      if (!d.spendPaidInFull && d.balance > 0) {
+        d.balance += d.monthlySpend;
+        chargesByIndex[i] = d.monthlySpend;
+      } else {
+        spendFromBudget += d.monthlySpend;
+      }
+    });
 
     let sumMinDue = 0;
     let totalBalanceStart = 0;
     let interestThisMonth = 0;
 
-    // 1) Compute interest + minimum due for each card THIS month
+    const days = cycleDays(startDate, months);
+    const paymentDay = options.paymentDay ?? days;
+
+    // 1) Compute cycle growth + minimum due for each card THIS month
     workingDebts.forEach((d, i) => {
-      if (d.balance <= 0.01) {
-        interestByIndex[i] = 0;
+      const apr = penaltyByIndex[i]
+        ? Math.max(aprForMonth(d, months), lateTerms.penaltyApr)
+        : aprForMonth(d, months);
+      aprByIndex[i] = apr;
+
+      // loans amortize on a plain monthly rate whatever the card accrual
+      const factors = cycleFactors(
+        apr,
+        d.kind === "installment" ? "monthly" : accrual,
+        days,
+        d.dueDay > 0 ? d.dueDay : paymentDay
+      );
+      factorsByIndex[i] = factors;
+
+      if (d.balance <= 0) {
+        payoffByIndex[i] = 0;
         minDueByIndex[i] = 0;
         return;
       }
 
-      const r = d.apr / 100 / 12;
-      const interest = d.balance * r;
-      const minDue = Math.min(d.minPayment, d.balance + interest);
+      // interest if nothing were paid this cycle (what the minimum sees)
+      const statementInterest = cycleInterest(d.balance, 0, factors, rounding);
+      const payoff = payoffAmount(d.balance, factors, rounding);
+      // anything left unpaid last month is due on top of the regular minimum
+      const minDue = Math.min(
+        minimumDue(d, statementInterest) + pastDueByIndex[i],
+        payoff
+      );
 
-      interestByIndex[i] = interest;
+      // clearing a loan early also has to cover the penalty on the prepaid part
+      payoffByIndex[i] =
+        minDue +
+        Math.ceil((payoff - minDue) * (1 + d.prepaymentPenalty) - CENT_EPSILON);
       minDueByIndex[i] = minDue;
 
       sumMinDue += minDue;
       totalBalanceStart += d.balance;
-      interestThisMonth += interest;
     });
 
-    // budget minus this month’s true minimums
-    let leftover = Math.max(0, monthlyBudget - sumMinDue);
+    // budget minus this month’s true minimums (a lean month below the
+    // minimums still pays them; nothing extra goes out)
+    const budgetThisMonth = budgetForMonth(budgetCents, timelineCents, months);
+    let leftover = minimumsOnly
+      ? 0
+      : Math.max(0, budgetThisMonth - sumMinDue - spendFromBudget);
+
+    // 1b) Emergency fund: this month's draws come out first, then part of
+    // the leftover tops it up while it's below target ("fillFirst" stops
+    // for good the first time it's full, "refill" starts again after a draw)
+    let fundDrawThisMonth = 0;
+    for (const draw of fundDraws) {
+      if (draw.month !== months) continue;
+      const amount = Math.min(fundBalance, toCents(Math.max(0, draw.amount)));
+      fundBalance -= amount;
+      fundDrawThisMonth += amount;
+    }
+    let fundContributionThisMonth = 0;
+    if (
+      fund &&
+      fundBalance < fundTargetCents &&
+      (fund.mode === "refill" || !fundFilled)
+    ) {
+      fundContributionThisMonth = Math.min(
+        leftover,
+        fundContributionCents,
+        fundTargetCents - fundBalance
+      );
+      fundBalance += fundContributionThisMonth;
+      leftover -= fundContributionThisMonth;
+    }
+    if (fundBalance >= fundTargetCents) fundFilled = true;
 
-    // 2) Start with everyone just getting their minimum
-    workingDebts.forEach((_, i) => {
+    // 2) Start with everyone just getting their minimum, except a card the
+    // stress test skips or underpays (that money isn't spent on debt at all)
+    workingDebts.forEach((d, i) => {
       totalPaymentByIndex[i] = minDueByIndex[i];
       extraByIndex[i] = 0;
+
+      const miss = missedPayments.find(
+        (m) => m.month === months && m.debtId === d.id
+      );
+      const paid = toCents(Math.max(0, miss?.amountPaid ?? 0));
+      if (miss && minDueByIndex[i] > 0 && paid < minDueByIndex[i]) {
+        totalPaymentByIndex[i] = paid;
+        missedByIndex[i] = true;
+      }
     });
 
-    // 3) Allocate leftover based on strategy priority
-    type PriorityItem = {
-      i: number;
-      balance: number;
-      apr: number;
-      interest: number;
-    };
+    // 3) Allocate leftover based on strategy priority (wizard: the order
+    // segment in effect this month, avalanche before the first one); APRs
+    // rank after tax, so a deductible loan drops behind a pricier card
+    let segment: OrderSegment | null = null;
+    for (const seg of segments) {
+      if (seg.fromMonth <= months) segment = seg;
+    }
+    // (guardian: avalanche for whatever its utilization passes leave)
+    let rankStrategy: Strategy = strategy;
+    if (strategy === "wizard") rankStrategy = segment ? "custom" : "rebel";
+    if (strategy === "guardian") rankStrategy = "rebel";
+    const rankOrder =
+      strategy === "wizard" ? (segment?.order ?? []) : customOrder;
+
+    const priorityList = sortByPriority(
+      workingDebts
+        .map((d, i) => {
+          const apr =
+            Math.max(
+              rankingApr(d, months, minDueByIndex[i], leftover),
+              aprByIndex[i]
+            ) * (d.taxDeductible ? 1 - taxRate : 1);
+          return { i, id: d.id, balance: d.balance, apr };
+        })
+        .filter((p) => p.balance > 0 && !missedByIndex[p.i]),
+      rankStrategy,
+      rankOrder
+    );
+
+    // 3b) One-off lump sums landing this month: targeted ones go to their
+    // card first (any excess rolls on), the rest follow the strategy order
+    let lumpSumThisMonth = 0;
+    if (!minimumsOnly) {
+      for (const lump of lumpSums) {
+        const amount = toCents(lump.amount);
+        if (lump.month !== months || amount <= 0) continue;
+        lumpSumThisMonth += amount;
 
-    const priorityList: PriorityItem[] = workingDebts
-      .map((d, i) => ({
-        i,
-        balance: d.balance,
-        apr: d.apr,
-        interest: (d.apr / 100 / 12) * d.balance || 0,
-      }))
-      .filter((p) => p.balance > 0.01);
-
-    priorityList.sort((a, b) => {
-      switch (strategy) {
-        case "warrior":
-          // smallest balance first (snowball)
-          if (a.balance !== b.balance) return a.balance - b.balance;
-          return b.apr - a.apr;
-        case "rebel":
-          // highest APR first (avalanche)
-          if (b.apr !== a.apr) return b.apr - a.apr;
-          return b.balance - a.balance;
-        case "wizard":
-          // interest-optimized: biggest interest cost first
-          if (b.interest !== a.interest) return b.interest - a.interest;
-          return b.apr - a.apr;
-        default:
-          return 0;
+        let remaining = amount;
+        const idx =
+          lump.debtId == null
+            ? -1
+            : workingDebts.findIndex((d) => d.id === lump.debtId);
+        if (idx >= 0) {
+          const room =
+            (payoffByIndex[idx] ?? 0) - (totalPaymentByIndex[idx] ?? 0);
+          const toCard = Math.max(0, Math.min(room, remaining));
+          extraByIndex[idx] += toCard;
+          totalPaymentByIndex[idx] += toCard;
+          remaining -= toCard;
+        }
+        leftover += remaining;
       }
-    });
+    }
+
+    // 3c) Guardian: before the avalanche, each card over a utilization
+    // threshold (worst first, the smaller balance on a tie) gets just
+    // enough to end the month under it
+    if (strategy === "guardian") {
+      for (const threshold of UTILIZATION_THRESHOLDS) {
+        const over = workingDebts
+          .map((d, i) => ({ d, i }))
+          .filter(
+            ({ d, i }) =>
+              d.creditLimit > 0 && d.balance > 0 && !missedByIndex[i]
+          )
+          .sort(
+            (a, b) =>
+              b.d.balance / b.d.creditLimit -
+                a.d.balance / a.d.creditLimit || a.d.balance - b.d.balance
+          );
+        for (const { d, i } of over) {
+          if (leftover <= 0) break;
+          // a balance one cent under threshold * limit
+          const target = Math.ceil(d.creditLimit * threshold) - 1;
+          const needed =
+            payoffByIndex[i] - Math.max(0, target) - totalPaymentByIndex[i];
+          if (needed <= 0) continue;
+          const toCard = Math.min(needed, leftover);
+          extraByIndex[i] += toCard;
+          totalPaymentByIndex[i] += toCard;
+          leftover -= toCard;
+        }
+      }
+    }
 
-    while (leftover > 0.01) {
+    while (leftover > 0) {
       let allocatedThisPass = 0;
 
       for (const item of priorityList) {
         const idx = item.i;
         const d = workingDebts[idx];
-        if (d.balance <= 0.01 || leftover <= 0.01) continue;
+        if (d.balance <= 0 || leftover <= 0) continue;
 
-        const interest = interestByIndex[idx] ?? 0;
         const alreadyPaying = totalPaymentByIndex[idx] ?? 0;
-        const maxNeeded = d.balance + interest - alreadyPaying;
+        const maxNeeded = (payoffByIndex[idx] ?? 0) - alreadyPaying;
 
-        if (maxNeeded <= 0.01) continue;
+        if (maxNeeded <= 0) continue;
 
         const extraForThisDebt = Math.min(maxNeeded, leftover);
-        if (extraForThisDebt <= 0.001) continue;
 
         extraByIndex[idx] += extraForThisDebt;
         totalPaymentByIndex[idx] = alreadyPaying + extraForThisDebt;
@@ -233,7 +1077,7 @@ export function calculatePlan(
         allocatedThisPass += extraForThisDebt;
       }
 
-      if (allocatedThisPass <= 0.001) {
+      if (allocatedThisPass <= 0) {
         // couldn't meaningfully allocate leftover; avoid infinite loop
         break;
       }
@@ -242,32 +1086,143 @@ export function calculatePlan(
     // 4) Apply payments and update balances
     let totalBalanceEnd = 0;
     let totalPrincipalThisMonth = 0;
+    let totalPaymentThisMonth = 0;
+    let feesThisMonth = 0;
+    const payments: MonthlyDebtPayment[] = [];
 
     workingDebts.forEach((d, i) => {
       const startBal = d.balance;
-      const interest = interestByIndex[i] ?? 0;
-      const totalPay = totalPaymentByIndex[i] ?? 0;
+      let totalPay = totalPaymentByIndex[i] ?? 0;
+      // prepayment penalty comes out of the extra before it hits the balance
+      const extra = extraByIndex[i] ?? 0;
+      const prepayFee =
+        extra - Math.floor(extra / (1 + d.prepaymentPenalty) + CENT_EPSILON);
+      let applied = totalPay - prepayFee;
+      // a late fee lands on the balance (and accrues interest from next month)
+      const lateFee = missedByIndex[i]
+        ? Math.min(lateFeeCents, minDueByIndex[i])
+        : 0;
+      const fee = prepayFee + lateFee;
+      const interest =
+        startBal > 0
+          ? cycleInterest(startBal, applied, factorsByIndex[i], rounding)
+          : 0;
+
+      // a payoff that rounding left a cent high only pays what's owed
+      const owed = startBal + interest + lateFee;
+      if (applied > owed) {
+        totalPay -= applied - owed;
+        applied = owed;
+      }
 
-      const principalPaid = Math.max(0, totalPay - interest);
-      let newBalance = startBal + interest - totalPay;
-      if (newBalance < 0) newBalance = 0;
+      const trimmed = (totalPaymentByIndex[i] ?? 0) - totalPay;
+      const principalPaid = applied - interest;
+      const newBalance = owed - applied;
 
       d.balance = newBalance;
 
+      // past due carries over; enough misses in a row trigger the penalty
+      // APR (cards only) until enough on-time months cure it
+      if (missedByIndex[i]) {
+        pastDueByIndex[i] = minDueByIndex[i] - totalPay;
+        missedStreakByIndex[i]++;
+        onTimeStreakByIndex[i] = 0;
+        if (
+          d.kind === "revolving" &&
+          missedStreakByIndex[i] >= lateTerms.penaltyAfterMissed
+        ) {
+          penaltyByIndex[i] = true;
+        }
+      } else if (startBal > 0) {
+        pastDueByIndex[i] = 0;
+        missedStreakByIndex[i] = 0;
+        onTimeStreakByIndex[i]++;
+        if (onTimeStreakByIndex[i] >= lateTerms.penaltyCureMonths) {
+          penaltyByIndex[i] = false;
+        }
+      }
+
       totalBalanceEnd += newBalance;
       totalPrincipalThisMonth += principalPaid;
+      totalPaymentThisMonth += totalPay;
+      interestThisMonth += interest;
+      if (d.taxDeductible) deductibleInterestAllTime += interest;
+      feesThisMonth += fee;
+
+      payments.push({
+        debtId: d.id,
+        name: d.name,
+        dueDate: planDate(
+          startDate,
+          months,
+          d.dueDay > 0 ? d.dueDay : paymentDay
+        ),
+        balanceStart: fromCents(startBal),
+        newCharges: fromCents(chargesByIndex[i] ?? 0),
+        apr: aprByIndex[i] ?? 0,
+        interestCharged: fromCents(interest),
+        minPayment: fromCents(minDueByIndex[i] ?? 0),
+        extraPayment: fromCents(Math.max(0, extra - trimmed)),
+        totalPayment: fromCents(totalPay),
+        principalPaid: fromCents(principalPaid),
+        feeCharged: fromCents(fee),
+        missed: missedByIndex[i],
+        balanceEnd: fromCents(newBalance),
+      });
     });
 
     totalInterestAllTime += interestThisMonth;
+    totalFeesAllTime += feesThisMonth;
 
     schedule.push({
       month: months,
-      totalBalanceEnd,
-      interestPaid: interestThisMonth,
-      principalPaid: totalPrincipalThisMonth,
+      date: planDate(startDate, months, 1),
+      totalBalanceStart: fromCents(totalBalanceStart),
+      totalBalanceEnd: fromCents(totalBalanceEnd),
+      newCharges: fromCents(newChargesThisMonth),
+      totalPayment: fromCents(totalPaymentThisMonth),
+      interestPaid: fromCents(interestThisMonth),
+      principalPaid: fromCents(totalPrincipalThisMonth),
+      feesPaid: fromCents(feesThisMonth),
+      lumpSum: fromCents(lumpSumThisMonth),
+      fundContribution: fromCents(fundContributionThisMonth),
+      fundDraw: fromCents(fundDrawThisMonth),
+      fundBalanceEnd: fromCents(fundBalance),
+      payments,
     });
 
-    if (totalBalanceEnd <= 0.01) break;
+    if (totalBalanceEnd <= 0) break;
+
+    // a year without the total coming down (growing, or flat because the
+    // payments only just cover the interest) and nothing scheduled left to
+    // turn it around: the balances never come down, so stop instead of
+    // running to the cap (money still going to the fund comes back to the
+    // debt once it's full)
+    if (
+      months >= lastScheduledChange &&
+      fundContributionThisMonth === 0 &&
+      totalBalanceEnd >= previousBalanceEnd
+    ) {
+      stallStreak++;
+    } else {
+      stallStreak = 0;
+    }
+    // the spending is to blame only if the total would have come down
+    // without this month's carried charges; otherwise the payments don't
+    // even get past the interest
+    const carriedThisMonth = newChargesThisMonth - spendFromBudget;
+    const spendingStall =
+      carriedThisMonth > 0 &&
+      totalBalanceEnd - carriedThisMonth < previousBalanceEnd;
+    previousBalanceEnd = totalBalanceEnd;
+
+    if (stallStreak >= MONTHS_IN_YEAR) {
+      return {
+        error: spendingStall
+          ? `New card spending of ${formatCurrency(fromCents(carriedThisMonth), options.money)}/month outpaces your payments, so your balances keep growing and this plan never finishes. Trim the spending or raise your budget.`
+          : "Your payments don't cover more than the interest, so your balances never come down and this plan never finishes. Increase your budget.",
+      };
+    }
   }
 
   if (months >= maxMonths) {
@@ -278,52 +1233,235 @@ export function calculatePlan(
 
   return {
     months,
-    totalInterest: totalInterestAllTime,
+    totalInterest: fromCents(totalInterestAllTime),
+    afterTaxInterest: fromCents(
+      totalInterestAllTime - Math.round(deductibleInterestAllTime * taxRate)
+    ),
+    totalFees: fromCents(totalFeesAllTime),
     schedule,
     strategyUsed: strategy,
   };
 }
 
+// ----------------------------------------------------
+// Wizard optimizer
+// ----------------------------------------------------
+
+// first month >= from where a card gets paid off or its rate is about to
+// change (a promo ending, a scheduled APR change); between those months the
+// best order can't change
+function nextEventMonth(
+  plan: PlanResult,
+  debtsInput: Debt[],
+  aprChanges: AprChange[],
+  from: number
+): number | null {
+  const rateEvents = [
+    ...debtsInput.map((d) => toNumericDebt(d).promoEndMonth),
+    ...aprChanges.map((c) => Math.floor(c.fromMonth) - 1),
+  ].filter((m) => m >= from);
+
+  for (const row of plan.schedule) {
+    if (row.month < from) continue;
+    if (rateEvents.includes(row.month)) return row.month;
+    if (row.payments.some((p) => p.balanceStart > 0 && p.balanceEnd <= 0)) {
+      return row.month;
+    }
+  }
+  return null;
+}
+
+// Rollout search over payoff orders. Starting from avalanche, at each
+// decision month (month 1, then the month after every payoff or promo
+// expiry) it tries sending extra money to each card still owing, simulates
+// the rest of the payoff, and keeps whichever choice ends with the least
+// after-tax interest plus prepayment penalties. Keeping the current plan is
+// always one of the choices, so the result never costs more than avalanche.
+function optimizeWizard(
+  debtsInput: Debt[],
+  monthlyBudgetStr: string,
+  planOptions: PlanOptions
+): PlanResult | { error: string } {
+  // every candidate must see the same calendar
+  const options = {
+    ...planOptions,
+    startDate: planOptions.startDate ?? new Date(),
+  };
+
+  // the baseline is exactly what "rebel" shows, so savingsVsAvalanche
+  // compares against the plan the user would see there
+  const avalanche = simulatePlan(
+    debtsInput,
+    monthlyBudgetStr,
+    "rebel",
+    options,
+    []
+  );
+  if ("error" in avalanche) return avalanche;
+
+  let best = avalanche;
+  let segments: OrderSegment[] = [];
+  let decisionMonth = 1;
+
+  while (decisionMonth <= best.months) {
+    const row = best.schedule[decisionMonth - 1];
+    const owing = row.payments
+      .filter((p) => p.balanceStart > 0)
+      .map((p) => p.debtId);
+
+    let bestSegments = segments;
+    for (const id of owing) {
+      const candidate = [...segments, { fromMonth: decisionMonth, order: [id] }];
+      const plan = simulatePlan(
+        debtsInput,
+        monthlyBudgetStr,
+        "wizard",
+        options,
+        candidate
+      );
+      if ("error" in plan) continue;
+      // compare in cents: the totals are whole cents, their float sums aren't
+      const cost = toCents(plan.afterTaxInterest + plan.totalFees);
+      const bestCost = toCents(best.afterTaxInterest + best.totalFees);
+      if (
+        cost < bestCost ||
+        (cost === bestCost && plan.months < best.months)
+      ) {
+        best = plan;
+        bestSegments = candidate;
+      }
+    }
+    segments = bestSegments;
+
+    const event = nextEventMonth(
+      best,
+      debtsInput,
+      options.aprChanges ?? [],
+      decisionMonth
+    );
+    if (event == null) break;
+    decisionMonth = event + 1;
+  }
+
+  return {
+    ...best,
+    strategyUsed: "wizard",
+    savingsVsAvalanche: fromCents(
+      Math.max(
+        0,
+        toCents(avalanche.afterTaxInterest + avalanche.totalFees) -
+          toCents(best.afterTaxInterest + best.totalFees)
+      )
+    ),
+  };
+}
+
 // ----------------------------------------------------
 // Helpers used elsewhere
 // ----------------------------------------------------
 
+// Level monthly payment that amortizes `principal` over `termMonths`
+export function amortizedPayment(
+  principal: number,
+  apr: number,
+  termMonths: number
+): number {
+  if (principal <= 0 || termMonths <= 0) return 0;
+  const r = apr / 100 / 12;
+  if (r <= 0) return principal / termMonths;
+  return (principal * r) / (1 - Math.pow(1 + r, -termMonths));
+}
+
+// APR in effect for a debt in a given plan month (promo-aware); pass the
+// plan's options.aprChanges to get the rate the engine charged that month
+export function getAprForMonth(
+  debt: Debt,
+  month: number,
+  aprChanges: AprChange[] = []
+): number {
+  return aprForMonth(toNumericDebt(debt, aprChanges), month);
+}
+
+// Minimum due in month 1 under the debt's minimum-payment rule
+export function getStartingMinimum(debt: Debt): number {
+  const d = toNumericDebt(debt);
+  const interest = roundInterest(
+    (d.balance * aprForMonth(d, 1)) / 100 / 12,
+    "round"
+  );
+  return fromCents(Math.min(minimumDue(d, interest), d.balance + interest));
+}
+
+// ISO date of the month the last balance is cleared (null = empty plan)
+export function getPayoffDate(plan: PlanResult): string | null {
+  const last = plan.schedule[plan.schedule.length - 1];
+  return last ? last.date : null;
+}
+
+// per-card payoff dates, earliest first
+export function getDebtPayoffDates(plan: PlanResult): DebtPayoffDate[] {
+  const result: DebtPayoffDate[] = [];
+  const done = new Set<number>();
+  for (const row of plan.schedule) {
+    for (const p of row.payments) {
+      if (done.has(p.debtId)) continue;
+      if (p.balanceStart > 0 && p.balanceEnd <= 0) {
+        done.add(p.debtId);
+        result.push({
+          debtId: p.debtId,
+          name: p.name,
+          month: row.month,
+          date: p.dueDate,
+        });
+      }
+    }
+  }
+  return result;
+}
+
 // safe wrapper so other helpers don't need to deal with error union
 export function runPlanSafe(
   debts: Debt[],
   budget: number,
-  strategy: Strategy
+  strategy: Strategy,
+  options: PlanOptions = {}
 ): PlanResult | null {
-  const res = calculatePlan(debts, budget.toString(), strategy);
+  const res = calculatePlan(debts, budget.toString(), strategy, options);
   if ("error" in res) return null;
   return res;
 }
 
-// Simple search for the budget to hit a target payoff time
-export function findIdealBudgetSimple(
-  debts: Debt[],
-  strategy: Strategy,
-  targetMonths: number
-): number | null {
-  if (!debts.length) return null;
-
-  const minBudget = debts.reduce(
-    (sum, d) => sum + (parseNum(d.minPayment) || 0),
-    0
-  );
-  if (!Number.isFinite(minBudget) || minBudget <= 0) return null;
-
-  const maxBudget = minBudget + 2000; // simple cap for search space
-  let best: number | null = null;
-
-  for (let budget = minBudget; budget <= maxBudget; budget += 25) {
-    const plan = runPlanSafe(debts, budget, strategy);
-    if (!plan) break;
-    if (plan.months <= targetMonths) {
-      best = budget;
-      break;
-    }
+// What to re-run `plan` with when a tool varies one input dozens of times
+// (goal search, sensitivity, Monte Carlo). Each Wizard plan is a whole order
+// search, so its variants follow the order it clears the cards in as a
+// "custom" plan instead; the other strategies are cheap as they are.
+export function getScenarioStrategy(
+  plan: PlanResult,
+  options: PlanOptions = {}
+): { strategy: Strategy; options: PlanOptions } {
+  if (plan.strategyUsed !== "wizard") {
+    return { strategy: plan.strategyUsed, options };
   }
+  return {
+    strategy: "custom",
+    options: {
+      ...options,
+      customOrder: getDebtPayoffDates(plan).map((p) => p.debtId),
+    },
+  };
+}
 
-  return best;
+// "Minimums only" baseline: every card gets exactly its (recomputed)
+// minimum each month and nothing more
+export function runMinimumsOnlyPlan(
+  debts: Debt[],
+  strategy: Strategy,
+  options: PlanOptions = {}
+): PlanResult | null {
+  const res = calculatePlan(debts, "0", strategy, {
+    ...options,
+    minimumsOnly: true,
+  });
+  if ("error" in res) return null;
+  return res;
 }
@@ -4,18 +4,81 @@ import {
   createContext,
   useContext,
   useEffect,
+  useMemo,
   useState,
   type ReactNode,
 } from "react";
 
-export type Strategy = "warrior" | "rebel" | "wizard";
+export type Strategy =
+  | "warrior"
+  | "rebel"
+  | "wizard"
+  | "custom"
+  | "guardian";
+
+export type InterestAccrual =
+  | "monthly"
+  | "dailyCompound"
+  | "averageDailyBalance";
+
+export type InterestRounding = "round" | "floor" | "bankers";
+
+// ISO 4217 currency + BCP 47 locale every amount and date is shown in
+export type MoneyFormat = {
+  currency: string;
+  locale: string;
+};
 
 export type EditableDebt = {
   id: number;
   name: string;
   balance: string; // stored as string while typing
   apr: string;
-  minPayment: string;
+  minPayment: string; // fixed amount, or the $ floor for percentage rules
+  minPaymentRule?: "fixed" | "percent" | "percentPlusInterest";
+  minPaymentPercent?: string;
+  promoApr?: string;
+  promoEndMonth?: string;
+  postPromoApr?: string;
+  kind?: "revolving" | "installment";
+  termMonths?: string; // installment loans: months left
+  prepaymentPenaltyPct?: string;
+  monthlySpend?: string; // new charges per month while paying down
+  creditLimit?: string; // cards only, for utilization
+  spendMode?: "carried" | "paidInFull";
+  dueDay?: string; // day of the month the payment is due
+  taxDeductible?: boolean; // student loan / mortgage interest
+};
+
+// one-off payment landing in a given plan month
+export type LumpSum = {
+  month: number;
+  amount: number;
+  debtId?: number; // omit to follow the strategy's order
+  label?: string;
+};
+
+// monthly budget from a given plan month onward
+export type BudgetChange = {
+  fromMonth: number;
+  amount: number;
+  label?: string;
+};
+
+// emergency fund built from the budget ("fillFirst" fills it once,
+// "refill" tops it back up after a draw)
+export type FundDraw = {
+  month: number;
+  amount: number;
+  label?: string;
+};
+
+export type EmergencyFundPlan = {
+  mode: "fillFirst" | "refill";
+  target: number;
+  startingBalance?: number;
+  monthlyContribution: number;
+  draws?: FundDraw[];
 };
 
 export type DashboardSummary = {
@@ -23,13 +86,36 @@ export type DashboardSummary = {
   projectedMonths: number;
   monthlyPayment: number;
   interestSaved: number;
+  // month 1 split straight from the engine's schedule
+  firstMonthInterest: number;
+  firstMonthPrincipal: number;
+  payoffDate?: string; // ISO yyyy-mm-dd of the final month
+  // only when the plan builds an emergency fund
+  emergencyFund?: {
+    target: number;
+    balanceAfterMonthOne: number;
+    filledDate?: string; // ISO yyyy-mm-dd of the first month at target
+  };
   chartData: { monthLabel: string; balance: number }[];
 };
 
 type DebtState = {
   debts: EditableDebt[];
   strategy: Strategy;
+  // winner picked in the side-by-side comparison (null = never compared)
+  comparisonWinner: Strategy | null;
+  customOrder: number[]; // debt ids for the "custom" strategy, first = first
   extraBudget: number; // total monthly budget for debt payoff
+  interestAccrual: InterestAccrual;
+  interestRounding: InterestRounding; // how each cycle's interest hits a cent
+  paymentDay: number | null; // day of the cycle payments post; null = last day
+  planStartDate: string | null; // "yyyy-mm" of plan month 1; null = this month
+  currency: string; // e.g. "USD", "CAD", "GBP", "EUR"
+  locale: string; // e.g. "en-US", "fr-CA", "en-GB", "de-DE"
+  marginalTaxRate: number | null; // percent, for deductible interest
+  lumpSums: LumpSum[];
+  budgetTimeline: BudgetChange[];
+  emergencyFund: EmergencyFundPlan | null; // null = no fund, all to debt
   dashboardSummary: DashboardSummary | null;
 };
 
@@ -37,7 +123,18 @@ type DebtContextValue = {
   state: DebtState;
   setDebts: (debts: EditableDebt[]) => void;
   setStrategy: (strategy: Strategy) => void;
+  setComparisonWinner: (winner: Strategy | null) => void;
+  setCustomOrder: (order: number[]) => void;
   setExtraBudget: (amount: number) => void;
+  setInterestAccrual: (accrual: InterestAccrual) => void;
+  setInterestRounding: (rounding: InterestRounding) => void;
+  setPaymentDay: (day: number | null) => void;
+  setPlanStartDate: (startDate: string | null) => void;
+  setMoneyFormat: (money: MoneyFormat) => void;
+  setMarginalTaxRate: (rate: number | null) => void;
+  setLumpSums: (lumpSums: LumpSum[]) => void;
+  setBudgetTimeline: (budgetTimeline: BudgetChange[]) => void;
+  setEmergencyFund: (fund: EmergencyFundPlan | null) => void;
   setDashboardSummary: (summary: DashboardSummary | null) => void;
 };
 
@@ -47,7 +144,19 @@ const STORAGE_KEY = "debtbeat-global-state-v2";
 const defaultState: DebtState = {
   debts: [],
   strategy: "warrior",
+  comparisonWinner: null,
+  customOrder: [],
   extraBudget: 0, // start from 0; UI will let user type their own budget
+  interestAccrual: "monthly",
+  interestRounding: "round",
+  paymentDay: null,
+  planStartDate: null,
+  currency: "USD",
+  locale: "en-US",
+  marginalTaxRate: null,
+  lumpSums: [],
+  budgetTimeline: [],
+  emergencyFund: null,
   dashboardSummary: null,
 };
 
@@ -104,6 +213,20 @@ export const DebtProvider = ({ children }: { children: ReactNode }) => {
     }));
   };
 
+  const setComparisonWinner = (winner: Strategy | null) => {
+    setState((prev) => ({
+      ...prev,
+      comparisonWinner: winner,
+    }));
+  };
+
+  const setCustomOrder = (order: number[]) => {
+    setState((prev) => ({
+      ...prev,
+      customOrder: order,
+    }));
+  };
+
   const setExtraBudget = (amount: number) => {
     setState((prev) => ({
       ...prev,
@@ -111,6 +234,70 @@ export const DebtProvider = ({ children }: { children: ReactNode }) => {
     }));
   };
 
+  const setInterestAccrual = (accrual: InterestAccrual) => {
+    setState((prev) => ({
+      ...prev,
+      interestAccrual: accrual,
+    }));
+  };
+
+  const setInterestRounding = (rounding: InterestRounding) => {
+    setState((prev) => ({
+      ...prev,
+      interestRounding: rounding,
+    }));
+  };
+
+  const setPaymentDay = (day: number | null) => {
+    setState((prev) => ({
+      ...prev,
+      paymentDay: day,
+    }));
+  };
+
+  const setPlanStartDate = (startDate: string | null) => {
+    setState((prev) => ({
+      ...prev,
+      planStartDate: startDate,
+    }));
+  };
+
+  const setMoneyFormat = (money: MoneyFormat) => {
+    setState((prev) => ({
+      ...prev,
+      currency: money.currency,
+      locale: money.locale,
+    }));
+  };
+
+  const setMarginalTaxRate = (rate: number | null) => {
+    setState((prev) => ({
+      ...prev,
+      marginalTaxRate: rate,
+    }));
+  };
+
+  const setLumpSums = (lumpSums: LumpSum[]) => {
+    setState((prev) => ({
+      ...prev,
+      lumpSums,
+    }));
+  };
+
+  const setBudgetTimeline = (budgetTimeline: BudgetChange[]) => {
+    setState((prev) => ({
+      ...prev,
+      budgetTimeline,
+    }));
+  };
+
+  const setEmergencyFund = (fund: EmergencyFundPlan | null) => {
+    setState((prev) => ({
+      ...prev,
+      emergencyFund: fund,
+    }));
+  };
+
   const setDashboardSummary = (summary: DashboardSummary | null) => {
     setState((prev) => ({
       ...prev,
@@ -122,7 +309,18 @@ export const DebtProvider = ({ children }: { children: ReactNode }) => {
     state,
     setDebts,
     setStrategy,
+    setComparisonWinner,
+    setCustomOrder,
     setExtraBudget,
+    setInterestAccrual,
+    setInterestRounding,
+    setPaymentDay,
+    setPlanStartDate,
+    setMoneyFormat,
+    setMarginalTaxRate,
+    setLumpSums,
+    setBudgetTimeline,
+    setEmergencyFund,
     setDashboardSummary,
   };
 
@@ -136,3 +334,10 @@ export const useDebtStore = (): DebtContextValue => {
   }
   return ctx;
 };
+
+// currency + locale for formatCurrency / formatPlanDate
+export const useMoneyFormat = (): MoneyFormat => {
+  const { state } = useDebtStore();
+  const { currency, locale } = state;
+  return useMemo(() => ({ currency, locale }), [currency, locale]);
+};
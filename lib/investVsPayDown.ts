@@ -0,0 +1,169 @@
+// lib/investVsPayDown.ts
+
+import {
+  type BudgetChange,
+  type Debt,
+  type PlanOptions,
+  type PlanResult,
+  type Strategy,
+  budgetForMonth,
+  runPlanSafe,
+} from "./debtPlan";
+import { roundCents } from "./numbers";
+
+// ----------------------------------------------------
+// Types
+// ----------------------------------------------------
+
+export type InvestSettings = {
+  annualReturnPct: number; // assumed yearly return on the investment account
+  horizonMonths: number; // how far out to compare net worth
+  // shares of the extra money that go to investing (0 = all to debt)
+  investShares?: number[];
+};
+
+export type InvestSplit = {
+  investShare: number; // 0..1
+  debtExtra: number; // per month on top of the budget, toward debt
+  investExtra: number; // per month into the investment account
+  plan: PlanResult;
+  totalInterest: number; // interest + fees on the debt side
+  // net worth = investment balance - debt still owed
+  netWorthAtPayoff: number; // at referenceMonth
+  netWorthAtHorizon: number;
+  investedAtHorizon: number;
+};
+
+export type InvestVsPayDownScenario = {
+  // payoff month of the split sending the most to debt (all of it by
+  // default): every split's net worth is measured then
+  referenceMonth: number;
+  horizonMonths: number;
+  splits: InvestSplit[];
+  bestAtPayoff: InvestSplit;
+  bestAtHorizon: InvestSplit;
+};
+
+export const DEFAULT_INVEST_SHARES = [0, 0.25, 0.5, 0.75, 1];
+
+// ----------------------------------------------------
+// Helpers
+// ----------------------------------------------------
+
+// Month by month: the investment share goes in every month, and once the
+// debts are gone everything that was going to them (budget + the whole
+// extra) is invested too, so every split spends the same cash each month.
+function netWorthPath(
+  plan: PlanResult,
+  monthlyBudget: number,
+  timeline: BudgetChange[],
+  extraPerMonth: number,
+  investExtra: number,
+  monthlyReturn: number,
+  months: number
+): { invested: number[]; netWorth: number[] } {
+  const invested: number[] = [];
+  const netWorth: number[] = [];
+  let balance = 0;
+
+  for (let month = 1; month <= months; month++) {
+    const row = plan.schedule[month - 1];
+    const contribution = row
+      ? investExtra
+      : budgetForMonth(monthlyBudget, timeline, month) + extraPerMonth;
+
+    balance = balance * (1 + monthlyReturn) + contribution;
+    invested.push(balance);
+    netWorth.push(balance - (row ? row.totalBalanceEnd : 0));
+  }
+
+  return { invested, netWorth };
+}
+
+// ----------------------------------------------------
+// Scenario
+// ----------------------------------------------------
+
+// Splits the slider's extra money between paying down debt and investing.
+// Each split runs the real payoff plan with its debt share on top of every
+// stage of the budget; net worth is compared when the all-to-debt plan is
+// done and again at the horizon.
+export function compareInvestVsPayDown(
+  debts: Debt[],
+  monthlyBudget: number,
+  extraPerMonth: number,
+  strategy: Strategy,
+  settings: InvestSettings,
+  options: PlanOptions = {}
+): InvestVsPayDownScenario | { error: string } {
+  if (extraPerMonth <= 0) {
+    return { error: "Move the extra-per-month slider above 0 to compare." };
+  }
+
+  const timeline = options.budgetTimeline ?? [];
+  const monthlyReturn =
+    Math.pow(1 + Math.max(-99, settings.annualReturnPct) / 100, 1 / 12) - 1;
+  const shares = (settings.investShares ?? DEFAULT_INVEST_SHARES)
+    .map((s) => Math.min(1, Math.max(0, s)))
+    .sort((a, b) => a - b);
+
+  const runs: { share: number; debtExtra: number; plan: PlanResult }[] = [];
+  for (const share of shares) {
+    const debtExtra = roundCents(extraPerMonth * (1 - share));
+    const plan = runPlanSafe(debts, monthlyBudget + debtExtra, strategy, {
+      ...options,
+      budgetTimeline: timeline.map((c) => ({
+        ...c,
+        amount: c.amount + debtExtra,
+      })),
+    });
+    if (plan) runs.push({ share, debtExtra, plan });
+  }
+
+  if (!runs.length) {
+    return {
+      error: "The payoff plan couldn't be built for any split of the extra.",
+    };
+  }
+
+  const referenceMonth = runs[0].plan.months;
+  const horizonMonths = Math.max(
+    1,
+    Math.floor(settings.horizonMonths),
+    referenceMonth
+  );
+
+  const splits: InvestSplit[] = runs.map(({ share, debtExtra, plan }) => {
+    const investExtra = roundCents(extraPerMonth - debtExtra);
+    const path = netWorthPath(
+      plan,
+      monthlyBudget,
+      timeline,
+      extraPerMonth,
+      investExtra,
+      monthlyReturn,
+      horizonMonths
+    );
+    return {
+      investShare: share,
+      debtExtra,
+      investExtra,
+      plan,
+      totalInterest: plan.totalInterest + plan.totalFees,
+      netWorthAtPayoff: roundCents(path.netWorth[referenceMonth - 1]),
+      netWorthAtHorizon: roundCents(path.netWorth[horizonMonths - 1]),
+      investedAtHorizon: roundCents(path.invested[horizonMonths - 1]),
+    };
+  });
+
+  const best = (key: "netWorthAtPayoff" | "netWorthAtHorizon") =>
+    splits.reduce((a, b) => (b[key] > a[key] ? b : a));
+
+  return {
+    referenceMonth,
+    horizonMonths,
+    splits,
+    bestAtPayoff: best("netWorthAtPayoff"),
+    bestAtHorizon: best("netWorthAtHorizon"),
+  };
+}
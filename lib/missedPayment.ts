@@ -0,0 +1,90 @@
+// lib/missedPayment.ts
+
+import {
+  type Debt,
+  type LatePaymentTerms,
+  type MissedPayment,
+  type PlanOptions,
+  type PlanResult,
+  type Strategy,
+  DEFAULT_LATE_TERMS,
+  calculatePlan,
+  getAprForMonth,
+} from "./debtPlan";
+
+// ----------------------------------------------------
+// Types
+// ----------------------------------------------------
+
+export type MissedPaymentScenario = {
+  normal: PlanResult;
+  stressed: PlanResult;
+  lateFees: number;
+  extraInterest: number;
+  // total cost = interest + fees on each path
+  normalCost: number;
+  stressedCost: number;
+  costDiff: number; // positive = missing the payment costs more
+  monthsDiff: number; // positive = missing the payment finishes later
+  penaltyAprMonths: number; // card-months charged the penalty APR
+};
+
+// ----------------------------------------------------
+// Scenario
+// ----------------------------------------------------
+
+// Same budget and strategy, once as planned and once with the missed or
+// short payments, so the difference is what "just skipping" really costs.
+export function simulateMissedPayments(
+  debts: Debt[],
+  monthlyBudget: number,
+  strategy: Strategy,
+  missed: MissedPayment[],
+  terms: LatePaymentTerms = DEFAULT_LATE_TERMS,
+  options: PlanOptions = {}
+): MissedPaymentScenario | { error: string } {
+  const normal = calculatePlan(debts, monthlyBudget.toString(), strategy, {
+    ...options,
+    missedPayments: [],
+  });
+  if ("error" in normal) return normal;
+
+  if (!missed.length) {
+    return { error: "Pick a card and a month to skip." };
+  }
+
+  const stressed = calculatePlan(debts, monthlyBudget.toString(), strategy, {
+    ...options,
+    missedPayments: missed,
+    lateTerms: terms,
+  });
+  if ("error" in stressed) return stressed;
+
+  const normalCost = normal.totalInterest + normal.totalFees;
+  const stressedCost = stressed.totalInterest + stressed.totalFees;
+
+  // penalty months: a card charged more than its own rate that month (promo
+  // and scheduled rate changes included)
+  const aprChanges = options.aprChanges ?? [];
+  let penaltyAprMonths = 0;
+  for (const row of stressed.schedule) {
+    for (const p of row.payments) {
+      const debt = debts.find((d) => d.id === p.debtId);
+      if (!debt || p.balanceStart <= 0) continue;
+      const regularApr = getAprForMonth(debt, row.month, aprChanges);
+      if (p.apr > regularApr + 1e-9) penaltyAprMonths++;
+    }
+  }
+
+  return {
+    normal,
+    stressed,
+    lateFees: stressed.totalFees - normal.totalFees,
+    extraInterest: stressed.totalInterest - normal.totalInterest,
+    normalCost,
+    stressedCost,
+    costDiff: stressedCost - normalCost,
+    monthsDiff: stressed.months - normal.months,
+    penaltyAprMonths,
+  };
+}
@@ -0,0 +1,276 @@
+// lib/monteCarlo.ts
+
+import {
+  type AprChange,
+  type BudgetChange,
+  type Debt,
+  type PlanOptions,
+  type PlanResult,
+  type Strategy,
+  budgetForMonth,
+  calculatePlan,
+  getPayoffDate,
+  getScenarioStrategy,
+} from "./debtPlan";
+import { parseNum, roundCents } from "./numbers";
+
+// ----------------------------------------------------
+// Types
+// ----------------------------------------------------
+
+export type MonteCarloSettings = {
+  runs: number;
+  seed?: number; // same seed, same runs (defaults to 1)
+  // chance any month comes in short, and how much of the budget goes missing
+  shortfallChancePct: number;
+  shortfallPct: number;
+  // chance per card per year its rate moves, by up to ± this many points
+  aprChangeChancePct: number;
+  aprChangeMaxPts: number;
+  // chance per month of a surprise expense paid out of the budget; the
+  // amount varies between half and one and a half times the typical one
+  surpriseChancePct: number;
+  surpriseAmount: number;
+};
+
+export type Percentiles = { p10: number; p50: number; p90: number };
+
+// percentile of the debt-free month; date is null when that run never finishes
+export type PayoffPercentile = { months: number; date: string | null };
+
+export type FanPoint = {
+  month: number;
+  date: string;
+  p10: number;
+  p50: number;
+  p90: number;
+};
+
+export type MonteCarloResult = {
+  basePlan: PlanResult; // the plan as entered, no surprises
+  runs: number;
+  neverFinished: number; // runs whose balances never come down
+  payoff: {
+    p10: PayoffPercentile;
+    p50: PayoffPercentile;
+    p90: PayoffPercentile;
+  };
+  totalInterest: Percentiles; // finished runs only
+  // remaining balance each month across the finished runs (0 once paid off)
+  fan: FanPoint[];
+};
+
+export const DEFAULT_MONTE_CARLO_SETTINGS: MonteCarloSettings = {
+  runs: 200,
+  shortfallChancePct: 10,
+  shortfallPct: 25,
+  aprChangeChancePct: 20,
+  aprChangeMaxPts: 3,
+  surpriseChancePct: 5,
+  surpriseAmount: 500,
+};
+
+// ----------------------------------------------------
+// Helpers
+// ----------------------------------------------------
+
+const MONTHS_IN_YEAR = 12;
+
+// small seeded PRNG (mulberry32) so re-renders show the same runs
+function makeRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// nearest-rank percentile of an ascending list
+function pick<T>(sorted: T[], pct: number): T {
+  const rank = Math.ceil((pct / 100) * sorted.length);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank - 1))];
+}
+
+function percentiles(values: number[]): Percentiles {
+  const sorted = [...values].sort((a, b) => a - b);
+  if (!sorted.length) return { p10: 0, p50: 0, p90: 0 };
+  return {
+    p10: roundCents(pick(sorted, 10)),
+    p50: roundCents(pick(sorted, 50)),
+    p90: roundCents(pick(sorted, 90)),
+  };
+}
+
+// The user's budget month by month with this run's short months and
+// surprise expenses taken out, written back as a budget timeline. Month 1
+// is left alone: the engine checks the minimums against it, while a lean
+// later month simply pays the minimums and nothing extra.
+function randomBudgetTimeline(
+  monthlyBudget: number,
+  timeline: BudgetChange[],
+  months: number,
+  settings: MonteCarloSettings,
+  random: () => number
+): BudgetChange[] {
+  const changes: BudgetChange[] = [];
+  let previous = monthlyBudget;
+
+  for (let month = 1; month <= months + 1; month++) {
+    let amount = budgetForMonth(monthlyBudget, timeline, month);
+    if (month > 1 && month <= months) {
+      if (random() < settings.shortfallChancePct / 100) {
+        amount *= 1 - Math.min(100, Math.max(0, settings.shortfallPct)) / 100;
+      }
+      if (random() < settings.surpriseChancePct / 100) {
+        amount -= Math.max(0, settings.surpriseAmount) * (0.5 + random());
+      }
+    }
+    amount = Math.max(0.01, roundCents(amount));
+    if (month === 1 || amount !== previous) {
+      changes.push({ fromMonth: month, amount });
+    }
+    previous = amount;
+  }
+
+  return changes;
+}
+
+// Cards only (loans keep their fixed rate): once a year each card may see
+// its regular rate move, from a random month of that year on. Moves add up
+// (a +2 then a -1 leaves it 1 point up), each from its own month; an intro
+// rate still runs until its promo ends.
+function randomAprChanges(
+  debts: Debt[],
+  months: number,
+  settings: MonteCarloSettings,
+  random: () => number
+): AprChange[] {
+  const years = Math.ceil(months / MONTHS_IN_YEAR);
+  const changes: AprChange[] = [];
+
+  for (const d of debts) {
+    if (d.kind === "installment") continue;
+
+    const promoEnd = Math.floor(parseNum(d.promoEndMonth));
+    let apr =
+      promoEnd > 0 && (d.postPromoApr ?? "").trim() !== ""
+        ? parseNum(d.postPromoApr)
+        : parseNum(d.apr);
+    for (let year = 0; year < years; year++) {
+      if (random() >= settings.aprChangeChancePct / 100) continue;
+      const move = (random() * 2 - 1) * Math.max(0, settings.aprChangeMaxPts);
+      apr = Math.max(0, roundCents(apr + move));
+      changes.push({
+        debtId: d.id,
+        fromMonth: year * MONTHS_IN_YEAR + 1 + Math.floor(random() * 12),
+        apr,
+      });
+    }
+  }
+
+  return changes;
+}
+
+// ----------------------------------------------------
+// Simulation
+// ----------------------------------------------------
+
+// Runs the plan `settings.runs` times with random short months, rate moves
+// and surprise expenses, all on the same calendar as the plan as entered.
+// A Wizard plan keeps the base plan's payoff order in every run.
+export function runMonteCarlo(
+  debts: Debt[],
+  monthlyBudget: number,
+  strategy: Strategy,
+  settings: MonteCarloSettings,
+  planOptions: PlanOptions = {}
+): MonteCarloResult | { error: string } {
+  const options: PlanOptions = {
+    ...planOptions,
+    startDate: planOptions.startDate ?? new Date(),
+  };
+
+  const basePlan = calculatePlan(
+    debts,
+    monthlyBudget.toString(),
+    strategy,
+    options
+  );
+  if ("error" in basePlan) return basePlan;
+  const scenario = getScenarioStrategy(basePlan, options);
+
+  const runCount = Math.max(1, Math.floor(settings.runs));
+  const random = makeRandom(settings.seed ?? 1);
+  // surprises can land well past the planned finish
+  const horizon = Math.max(
+    basePlan.months * 2 + MONTHS_IN_YEAR,
+    ...(options.budgetTimeline ?? []).map((c) => c.fromMonth)
+  );
+
+  const finished: PlanResult[] = [];
+  let neverFinished = 0;
+
+  for (let run = 0; run < runCount; run++) {
+    const aprChanges = randomAprChanges(debts, horizon, settings, random);
+    const budgetTimeline = randomBudgetTimeline(
+      monthlyBudget,
+      options.budgetTimeline ?? [],
+      horizon,
+      settings,
+      random
+    );
+    const plan = calculatePlan(
+      debts,
+      monthlyBudget.toString(),
+      scenario.strategy,
+      {
+        ...scenario.options,
+        budgetTimeline,
+        aprChanges: [...(options.aprChanges ?? []), ...aprChanges],
+      }
+    );
+    if ("error" in plan) {
+      neverFinished++;
+    } else {
+      finished.push(plan);
+    }
+  }
+
+  // runs that never finish sort last, past every finished one
+  const byMonths = [...finished].sort((a, b) => a.months - b.months);
+  const payoffAt = (pct: number): PayoffPercentile => {
+    const rank = Math.ceil((pct / 100) * runCount);
+    const index = Math.min(runCount - 1, Math.max(0, rank - 1));
+    const plan = byMonths[index];
+    return plan
+      ? { months: plan.months, date: getPayoffDate(plan) }
+      : { months: Infinity, date: null };
+  };
+
+  const longest = byMonths[byMonths.length - 1];
+  const fan: FanPoint[] = [];
+  if (longest) {
+    for (let month = 1; month <= longest.months; month++) {
+      const balances = finished.map(
+        (plan) => plan.schedule[month - 1]?.totalBalanceEnd ?? 0
+      );
+      fan.push({
+        month,
+        date: longest.schedule[month - 1].date,
+        ...percentiles(balances),
+      });
+    }
+  }
+
+  return {
+    basePlan,
+    runs: runCount,
+    neverFinished,
+    payoff: { p10: payoffAt(10), p50: payoffAt(50), p90: payoffAt(90) },
+    totalInterest: percentiles(finished.map((plan) => plan.totalInterest)),
+    fan,
+  };
+}
@@ -0,0 +1,16 @@
+// lib/numbers.ts
+
+// ----------------------------------------------------
+// Number helpers shared by the engine, the scenario modules and the panels
+// ----------------------------------------------------
+
+// form fields arrive as strings; blank or garbage counts as 0
+export function parseNum(value: string | undefined): number {
+  const n = parseFloat(value || "0");
+  return Number.isFinite(n) ? n : 0;
+}
+
+// dollars to the nearest cent
+export function roundCents(n: number): number {
+  return Math.round(n * 100) / 100;
+}
@@ -0,0 +1,113 @@
+// lib/planDiff.ts
+
+import { type PlanResult, getDebtPayoffDates } from "./debtPlan";
+import { roundCents } from "./numbers";
+
+// ----------------------------------------------------
+// Types
+// ----------------------------------------------------
+
+// one calendar month of both plans; a plan that has already finished
+// counts as a zero balance with its interest frozen at the final total
+export type PlanDiffMonth = {
+  month: number;
+  date: string;
+  balanceA: number;
+  balanceB: number;
+  balanceGap: number; // B - A (positive = A owes less)
+  interestA: number; // cumulative interest paid so far
+  interestB: number;
+  interestGap: number; // B - A (positive = A has paid less)
+};
+
+// a card paid off in a different month by each plan (month/date null = that
+// plan never pays it off on its own, e.g. an empty schedule)
+export type PayoffTimingDiff = {
+  debtId: number;
+  name: string;
+  monthA: number | null;
+  monthB: number | null;
+  dateA: string | null;
+  dateB: string | null;
+  monthsApart: number; // B - A (positive = A clears it sooner)
+};
+
+export type PlanDiff = {
+  months: PlanDiffMonth[]; // through the longer of the two plans
+  monthsDiff: number; // B - A
+  interestDiff: number; // B - A, whole plan
+  feesDiff: number; // B - A, whole plan
+  // cards whose payoff month differs, biggest difference first
+  payoffTiming: PayoffTimingDiff[];
+  widestGap: PlanDiffMonth | null; // month with the largest |balanceGap|
+};
+
+// ----------------------------------------------------
+// Diff
+// ----------------------------------------------------
+
+// Lines up two plans month by month. Both should start on the same
+// calendar month (same startDate) for the dates to mean anything.
+export function comparePlans(a: PlanResult, b: PlanResult): PlanDiff {
+  const months: PlanDiffMonth[] = [];
+  const length = Math.max(a.schedule.length, b.schedule.length);
+  let interestA = 0;
+  let interestB = 0;
+
+  for (let i = 0; i < length; i++) {
+    const rowA = a.schedule[i];
+    const rowB = b.schedule[i];
+    interestA += rowA?.interestPaid ?? 0;
+    interestB += rowB?.interestPaid ?? 0;
+    const balanceA = rowA?.totalBalanceEnd ?? 0;
+    const balanceB = rowB?.totalBalanceEnd ?? 0;
+    months.push({
+      month: i + 1,
+      date: (rowA ?? rowB).date,
+      balanceA,
+      balanceB,
+      balanceGap: roundCents(balanceB - balanceA),
+      interestA: roundCents(interestA),
+      interestB: roundCents(interestB),
+      interestGap: roundCents(interestB - interestA),
+    });
+  }
+
+  const paidA = new Map(getDebtPayoffDates(a).map((p) => [p.debtId, p]));
+  const paidB = new Map(getDebtPayoffDates(b).map((p) => [p.debtId, p]));
+  const payoffTiming: PayoffTimingDiff[] = [];
+  for (const debtId of new Set([...paidA.keys(), ...paidB.keys()])) {
+    const pa = paidA.get(debtId);
+    const pb = paidB.get(debtId);
+    if (pa && pb && pa.month === pb.month) continue;
+    payoffTiming.push({
+      debtId,
+      name: (pa ?? pb)?.name ?? "",
+      monthA: pa?.month ?? null,
+      monthB: pb?.month ?? null,
+      dateA: pa?.date ?? null,
+      dateB: pb?.date ?? null,
+      monthsApart: (pb?.month ?? length) - (pa?.month ?? length),
+    });
+  }
+  payoffTiming.sort(
+    (x, y) => Math.abs(y.monthsApart) - Math.abs(x.monthsApart)
+  );
+
+  const widestGap = months.reduce<PlanDiffMonth | null>(
+    (widest, m) =>
+      !widest || Math.abs(m.balanceGap) > Math.abs(widest.balanceGap)
+        ? m
+        : widest,
+    null
+  );
+
+  return {
+    months,
+    monthsDiff: b.months - a.months,
+    interestDiff: roundCents(b.totalInterest - a.totalInterest),
+    feesDiff: roundCents(b.totalFees - a.totalFees),
+    payoffTiming,
+    widestGap,
+  };
+}
@@ -0,0 +1,198 @@
+// lib/sensitivity.ts
+
+import {
+  type Debt,
+  type PlanOptions,
+  type PlanResult,
+  type Strategy,
+  calculatePlan,
+  getScenarioStrategy,
+} from "./debtPlan";
+import { parseNum, roundCents } from "./numbers";
+
+// ----------------------------------------------------
+// Types
+// ----------------------------------------------------
+
+export type SensitivitySettings = {
+  aprPoints: number; // each card's APR moves ± this many points (1-5)
+  budgetPct: number; // the budget moves ± this percent
+};
+
+// one side of an input's swing; null = the plan can't be built there
+export type SensitivityOutcome = {
+  months: number;
+  totalInterest: number; // interest + fees, like the other comparisons
+} | null;
+
+export type SensitivityInput = {
+  key: string; // "budget" or "apr-<debt id>"
+  label: string;
+  debtId?: number; // APR inputs only
+  low: SensitivityOutcome; // APR down / budget down
+  high: SensitivityOutcome; // APR up / budget up
+  // spread between the two sides (Infinity when a side can't be built)
+  interestSwing: number;
+  monthsSwing: number;
+};
+
+export type SensitivityReport = {
+  base: PlanResult; // the plan every swing is measured from
+  aprPoints: number;
+  budgetPct: number;
+  inputs: SensitivityInput[]; // biggest interest swing first
+};
+
+export const DEFAULT_SENSITIVITY_SETTINGS: SensitivitySettings = {
+  aprPoints: 2,
+  budgetPct: 10,
+};
+
+// ----------------------------------------------------
+// Helpers
+// ----------------------------------------------------
+
+// The card's regular rate (and the rate after an intro period, if any)
+// moved by `points`; an intro rate itself isn't up for negotiation.
+function shiftApr(debt: Debt, points: number): Debt {
+  const moved = (rate: string | undefined) =>
+    Math.max(0, roundCents(parseNum(rate) + points)).toString();
+  const hasPostPromo = (debt.postPromoApr ?? "").trim() !== "";
+  return {
+    ...debt,
+    apr: moved(debt.apr),
+    postPromoApr: hasPostPromo ? moved(debt.postPromoApr) : debt.postPromoApr,
+  };
+}
+
+function outcome(
+  debts: Debt[],
+  monthlyBudget: number,
+  strategy: Strategy,
+  options: PlanOptions
+): SensitivityOutcome {
+  const plan = calculatePlan(
+    debts,
+    monthlyBudget.toString(),
+    strategy,
+    options
+  );
+  if ("error" in plan) return null;
+  return {
+    months: plan.months,
+    totalInterest: roundCents(plan.totalInterest + plan.totalFees),
+  };
+}
+
+function swing(
+  low: SensitivityOutcome,
+  high: SensitivityOutcome,
+  key: "months" | "totalInterest"
+): number {
+  // a side that never finishes outranks anything we can measure
+  if (!low || !high) return Infinity;
+  return Math.abs(high[key] - low[key]);
+}
+
+// ----------------------------------------------------
+// Report
+// ----------------------------------------------------
+
+// Re-runs the plan with one input moved at a time: every card's APR down
+// and up by `aprPoints`, then the whole budget (and every budget change)
+// down and up by `budgetPct`. Everything else stays as entered. A Wizard
+// plan is searched once and every run follows its payoff order.
+export function analyzeSensitivity(
+  debts: Debt[],
+  monthlyBudget: number,
+  strategy: Strategy,
+  settings: SensitivitySettings,
+  planOptions: PlanOptions = {}
+): SensitivityReport | { error: string } {
+  // every run must see the same calendar
+  const options: PlanOptions = {
+    ...planOptions,
+    startDate: planOptions.startDate ?? new Date(),
+  };
+
+  const planned = calculatePlan(
+    debts,
+    monthlyBudget.toString(),
+    strategy,
+    options
+  );
+  if ("error" in planned) return planned;
+
+  // the swings are measured against the same stand-in they're run with
+  const scenario = getScenarioStrategy(planned, options);
+  const base =
+    scenario.strategy === strategy
+      ? planned
+      : calculatePlan(
+        debts,
+        monthlyBudget.toString(),
+        scenario.strategy,
+        scenario.options
+      );
+  if ("error" in base) return base;
+
+  const aprPoints = Math.max(0, settings.aprPoints);
+  const budgetPct = Math.min(100, Math.max(0, settings.budgetPct));
+
+  const inputs: SensitivityInput[] = debts.map((debt) => {
+    const withApr = (points: number) =>
+      debts.map((d) => (d.id === debt.id ? shiftApr(d, points) : d));
+    const low = outcome(
+      withApr(-aprPoints),
+      monthlyBudget,
+      scenario.strategy,
+      scenario.options
+    );
+    const high = outcome(
+      withApr(aprPoints),
+      monthlyBudget,
+      scenario.strategy,
+      scenario.options
+    );
+    return {
+      key: `apr-${debt.id}`,
+      label: `${debt.name || `Card ${debt.id}`} APR`,
+      debtId: debt.id,
+      low,
+      high,
+      interestSwing: swing(low, high, "totalInterest"),
+      monthsSwing: swing(low, high, "months"),
+    };
+  });
+
+  const withBudget = (sign: number) => {
+    const factor = 1 + (sign * budgetPct) / 100;
+    return outcome(
+      debts,
+      roundCents(monthlyBudget * factor),
+      scenario.strategy,
+      {
+        ...scenario.options,
+        budgetTimeline: options.budgetTimeline?.map((c) => ({
+          ...c,
+          amount: roundCents(c.amount * factor),
+        })),
+      }
+    );
+  };
+  const budgetLow = withBudget(-1);
+  const budgetHigh = withBudget(1);
+  inputs.push({
+    key: "budget",
+    label: "Monthly budget",
+    low: budgetLow,
+    high: budgetHigh,
+    interestSwing: swing(budgetLow, budgetHigh, "totalInterest"),
+    monthsSwing: swing(budgetLow, budgetHigh, "months"),
+  });
+
+  // (two failed inputs tie: Infinity - Infinity is NaN)
+  inputs.sort((a, b) => b.interestSwing - a.interestSwing || 0);
+
+  return { base, aprPoints, budgetPct, inputs };
+}
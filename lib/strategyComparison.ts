@@ -0,0 +1,136 @@
+// lib/strategyComparison.ts
+
+import {
+  type Debt,
+  type PlanOptions,
+  type PlanResult,
+  type Strategy,
+  calculatePlan,
+  getDebtPayoffDates,
+  getStrategyLabel,
+  runMinimumsOnlyPlan,
+} from "./debtPlan";
+import { roundCents } from "./numbers";
+
+// ----------------------------------------------------
+// Types
+// ----------------------------------------------------
+
+export type ComparisonKey = Strategy | "minimums";
+
+// cards paid off in one calendar year
+export type ClosedInYear = { year: number; count: number };
+
+export type StrategyComparisonRow = {
+  key: ComparisonKey;
+  label: string;
+  // null = this option never pays the debts off (or the budget can't cover
+  // the minimums); error says why
+  plan: PlanResult | null;
+  error?: string;
+  months: number;
+  totalInterest: number; // interest + fees, like the other comparisons
+  firstPayoffMonth: number | null; // first card to hit zero
+  firstPayoffDate: string | null;
+  closedPerYear: ClosedInYear[]; // earliest year first
+};
+
+export type StrategyComparison = {
+  rows: StrategyComparisonRow[]; // strategies in the order asked, baseline last
+  // cheapest strategy (the baseline never wins); null when none can be built
+  cheapest: Strategy | null;
+};
+
+export const COMPARED_STRATEGIES: Strategy[] = ["warrior", "rebel", "wizard"];
+
+// ----------------------------------------------------
+// Helpers
+// ----------------------------------------------------
+
+function toRow(
+  key: ComparisonKey,
+  label: string,
+  plan: PlanResult | { error: string } | null
+): StrategyComparisonRow {
+  if (!plan || "error" in plan) {
+    return {
+      key,
+      label,
+      plan: null,
+      error: plan ? plan.error : "Never paid off at this pace.",
+      months: Infinity,
+      totalInterest: Infinity,
+      firstPayoffMonth: null,
+      firstPayoffDate: null,
+      closedPerYear: [],
+    };
+  }
+
+  const payoffs = getDebtPayoffDates(plan);
+  const byYear = new Map<number, number>();
+  for (const p of payoffs) {
+    const year = Number(p.date.slice(0, 4));
+    byYear.set(year, (byYear.get(year) ?? 0) + 1);
+  }
+
+  return {
+    key,
+    label,
+    plan,
+    months: plan.months,
+    totalInterest: roundCents(plan.totalInterest + plan.totalFees),
+    firstPayoffMonth: payoffs[0]?.month ?? null,
+    firstPayoffDate: payoffs[0]?.date ?? null,
+    closedPerYear: [...byYear.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([year, count]) => ({ year, count })),
+  };
+}
+
+// ----------------------------------------------------
+// Comparison
+// ----------------------------------------------------
+
+// Runs each strategy with the same budget and options, plus the
+// minimums-only baseline, all on the same calendar.
+export function compareStrategies(
+  debts: Debt[],
+  monthlyBudget: number,
+  planOptions: PlanOptions = {},
+  strategies: Strategy[] = COMPARED_STRATEGIES
+): StrategyComparison {
+  const options: PlanOptions = {
+    ...planOptions,
+    startDate: planOptions.startDate ?? new Date(),
+  };
+
+  const rows = strategies.map((strategy) =>
+    toRow(
+      strategy,
+      getStrategyLabel(strategy),
+      calculatePlan(debts, monthlyBudget.toString(), strategy, options)
+    )
+  );
+  // the strategy only decides the order of a minimums-only plan's (empty)
+  // extra payments, so any will do
+  rows.push(
+    toRow(
+      "minimums",
+      "Minimums only",
+      runMinimumsOnlyPlan(debts, "rebel", options)
+    )
+  );
+
+  let cheapest: StrategyComparisonRow | null = null;
+  for (const row of rows) {
+    if (row.key === "minimums" || !row.plan) continue;
+    if (!cheapest || row.totalInterest < cheapest.totalInterest) {
+      cheapest = row;
+    }
+  }
+
+  return {
+    rows,
+    cheapest: cheapest ? (cheapest.key as Strategy) : null,
+  };
+}
@@ -0,0 +1,125 @@
+// lib/utilization.ts
+
+import {
+  type Debt,
+  type PlanResult,
+  UTILIZATION_THRESHOLDS,
+} from "./debtPlan";
+import { parseNum } from "./numbers";
+
+// ----------------------------------------------------
+// Types
+// ----------------------------------------------------
+
+// first month the balance ends under a threshold (0 = already under today);
+// null = not within the plan
+export type ThresholdCrossing = { month: number; date: string } | null;
+
+export type CardUtilization = {
+  debtId: number;
+  name: string;
+  limit: number;
+  startPct: number; // % of the limit used today
+  under: ThresholdCrossing[]; // one per UTILIZATION_THRESHOLDS entry
+};
+
+export type UtilizationPoint = {
+  month: number; // 0 = today, before the first payment
+  date: string;
+  overall: number; // % of the combined limit (unrounded)
+  byDebt: Record<number, number>; // debt id -> % of its own limit
+};
+
+export type UtilizationReport = {
+  thresholds: number[]; // UTILIZATION_THRESHOLDS, as fractions
+  cards: CardUtilization[];
+  overall: {
+    limit: number;
+    startPct: number;
+    under: ThresholdCrossing[];
+  };
+  points: UtilizationPoint[];
+};
+
+// ----------------------------------------------------
+// Helpers
+// ----------------------------------------------------
+
+function firstUnder(
+  points: UtilizationPoint[],
+  pctAt: (point: UtilizationPoint) => number
+): ThresholdCrossing[] {
+  return UTILIZATION_THRESHOLDS.map((threshold) => {
+    const hit = points.find((p) => pctAt(p) < threshold * 100);
+    return hit ? { month: hit.month, date: hit.date } : null;
+  });
+}
+
+// ----------------------------------------------------
+// Projection
+// ----------------------------------------------------
+
+// Per-card and overall utilization at the end of each plan month, for the
+// cards that have a credit limit (loans and cards without one are left
+// out). Null when no card has a limit.
+export function projectUtilization(
+  plan: PlanResult,
+  debts: Debt[]
+): UtilizationReport | null {
+  const cards = debts
+    .filter((d) => d.kind !== "installment" && parseNum(d.creditLimit) > 0)
+    .map((d) => ({
+      debt: d,
+      limit: parseNum(d.creditLimit),
+      balance: Math.max(0, parseNum(d.balance)),
+    }));
+  if (!cards.length) return null;
+
+  const totalLimit = cards.reduce((sum, c) => sum + c.limit, 0);
+
+  const pointFor = (
+    month: number,
+    date: string,
+    balanceOf: (card: (typeof cards)[number]) => number
+  ): UtilizationPoint => {
+    const byDebt: Record<number, number> = {};
+    let used = 0;
+    for (const c of cards) {
+      const balance = balanceOf(c);
+      used += balance;
+      byDebt[c.debt.id] = (balance / c.limit) * 100;
+    }
+    return { month, date, overall: (used / totalLimit) * 100, byDebt };
+  };
+
+  const points: UtilizationPoint[] = [
+    pointFor(0, plan.schedule[0]?.date ?? "", (c) => c.balance),
+  ];
+  // a card missing from a month's payments keeps its last known balance
+  const lastBalance = new Map(cards.map((c) => [c.debt.id, c.balance]));
+  for (const row of plan.schedule) {
+    for (const p of row.payments) {
+      lastBalance.set(p.debtId, Math.max(0, p.balanceEnd));
+    }
+    points.push(
+      pointFor(row.month, row.date, (c) => lastBalance.get(c.debt.id) ?? 0)
+    );
+  }
+
+  return {
+    thresholds: [...UTILIZATION_THRESHOLDS],
+    cards: cards.map((c) => ({
+      debtId: c.debt.id,
+      name: c.debt.name,
+      limit: c.limit,
+      startPct: points[0].byDebt[c.debt.id],
+      under: firstUnder(points, (p) => p.byDebt[c.debt.id]),
+    })),
+    overall: {
+      limit: totalLimit,
+      startPct: points[0].overall,
+      under: firstUnder(points, (p) => p.overall),
+    },
+    points,
+  };
+}
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Debt" ADD COLUMN     "postPromoApr" DOUBLE PRECISION,
+ADD COLUMN     "promoApr" DOUBLE PRECISION,
+ADD COLUMN     "promoEndMonth" INTEGER;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Debt" ADD COLUMN     "minPaymentPercent" DOUBLE PRECISION,
+ADD COLUMN     "minPaymentRule" TEXT NOT NULL DEFAULT 'fixed';
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Plan" ADD COLUMN     "customOrder" TEXT[];
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Debt" ADD COLUMN     "kind" TEXT NOT NULL DEFAULT 'revolving',
+ADD COLUMN     "prepaymentPenaltyPct" DOUBLE PRECISION,
+ADD COLUMN     "termMonths" INTEGER;
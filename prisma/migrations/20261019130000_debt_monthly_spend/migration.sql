@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Debt" ADD COLUMN     "monthlySpend" DOUBLE PRECISION,
+ADD COLUMN     "spendMode" TEXT NOT NULL DEFAULT 'carried';
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Debt" ADD COLUMN     "dueDay" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Plan" ADD COLUMN     "startDate" TIMESTAMP(3);
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Debt" ADD COLUMN     "taxDeductible" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "marginalTaxRate" DOUBLE PRECISION;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Debt" ADD COLUMN     "creditLimit" DOUBLE PRECISION;